@@ -0,0 +1,138 @@
+import { mergeSignals, rankSignals } from "./content";
+import { random } from "./fixtures";
+import { RepoAnalysis } from "./types";
+
+// ── Aggregate analysis data ─────────────────────────────────────────────────
+// Languages, dependencies and file types count by each repo's contribution
+// weight, so the user's main projects outrank forks and drive-by commits.
+export function aggregateAnalysis(
+  repoAnalyses: Record<string, RepoAnalysis>,
+  repoWeights: Record<string, number>
+) {
+  const allLanguages = new Map<string, number>();
+  const allDependencies = new Map<string, number>();
+  const allFileTypes = new Map<string, number>();
+  const allEvidence: string[] = [];
+  const allSignals = mergeSignals(
+    ...Object.values(repoAnalyses).map((a) => a.signals)
+  );
+
+  const addWeight = (map: Map<string, number>, key: string, w: number) =>
+    map.set(key, (map.get(key) || 0) + w);
+  // Ties by name: repos fill their sets in network completion order
+  const ranked = (map: Map<string, number>) =>
+    Array.from(map.entries()).sort(
+      ([ka, a], [kb, b]) => b - a || ka.localeCompare(kb)
+    );
+
+  Object.entries(repoAnalyses).forEach(([repo, a]) => {
+    const weight = repoWeights[repo] ?? 1;
+    Object.entries(a.languages).forEach(([lang, bytes]) =>
+      addWeight(allLanguages, lang, bytes * weight)
+    );
+    a.dependencies.forEach((dep) => addWeight(allDependencies, dep, weight));
+    a.fileTypes.forEach((ft) => addWeight(allFileTypes, ft, weight));
+    allEvidence.push(...a.evidence);
+  });
+  allEvidence.sort();
+
+  const totalBytes =
+    Array.from(allLanguages.values()).reduce((s, b) => s + b, 0) || 1;
+  const langPercentages = ranked(allLanguages)
+    .map(([l, b]) => `${l}: ${((b / totalBytes) * 100).toFixed(2)}%`)
+    .join("\n");
+
+  const dependencyWeights = ranked(allDependencies)
+    .slice(0, 80)
+    .map(([name, weight]) => ({
+      name,
+      weight: Math.round(weight * 100) / 100,
+    }));
+  const topDeps = dependencyWeights.map((d) => d.name);
+  const topFileTypes = ranked(allFileTypes)
+    .slice(0, 20)
+    .map(([ext]) => ext);
+  const topSignals = Object.fromEntries(rankSignals(allSignals, 60));
+
+  // Diverse evidence
+  const diverse: string[] = [];
+  const prLinks = allEvidence.filter((l) => l.includes("/pull/"));
+  const commitLinks = allEvidence.filter((l) => l.includes("/commit/"));
+  diverse.push(...prLinks.slice(0, 8));
+  diverse.push(...commitLinks.slice(0, 10));
+  if (diverse.length < 15) {
+    const rest = allEvidence.filter((l) => !diverse.includes(l));
+    diverse.push(...rest.slice(0, 15 - diverse.length));
+  }
+  diverse.sort(() => random() - 0.5);
+  const evidenceSample = diverse.slice(0, 20);
+
+  return {
+    langPercentages,
+    topDeps,
+    dependencyWeights,
+    topFileTypes,
+    topSignals,
+    evidenceSample,
+  };
+}
+
+// ── Random Diverse Evidence Links ─────────────────────────────────────────────────
+export function getFreshEvidenceSample(
+  allLinks: string[],
+  maxLinks: number = 12
+): string {
+  if (allLinks.length <= maxLinks) {
+    return allLinks.join("\n");
+  }
+
+  // Group by repo
+  const byRepo = new Map<string, string[]>();
+
+  allLinks.forEach((link) => {
+    const repoMatch = link.match(
+      /github\.com\/([^/]+\/[^/]+)(?:\/commit|\/pull)/
+    );
+    const repo = repoMatch ? repoMatch[1] : "unknown";
+    if (!byRepo.has(repo)) byRepo.set(repo, []);
+    byRepo.get(repo)!.push(link);
+  });
+
+  // Repos in random order, and a random PR / commit of each: with at least as
+  // many repos as links, the first of each would give every run the same
+  // sample
+  const repos = shuffle([...byRepo.values()]);
+  const pick = (links: string[]) =>
+    links.length ? links[Math.floor(random() * links.length)] : undefined;
+  const selected: string[] = [];
+
+  // Priority 1: PRs (richer context)
+  for (const links of repos) {
+    const prLink = pick(links.filter((l) => l.includes("/pull/")));
+    if (prLink && selected.length < maxLinks) selected.push(prLink);
+  }
+
+  // Priority 2: Commits
+  for (const links of repos) {
+    const commitLink = pick(links.filter((l) => l.includes("/commit/")));
+    if (commitLink && selected.length < maxLinks) selected.push(commitLink);
+  }
+
+  // Fill remaining randomly from leftover
+  const remaining = allLinks.filter((l) => !selected.includes(l));
+  while (selected.length < maxLinks && remaining.length > 0) {
+    const idx = Math.floor(random() * remaining.length);
+    selected.push(remaining.splice(idx, 1)[0]);
+  }
+
+  return shuffle(selected).slice(0, maxLinks).join("\n");
+}
+
+// Fisher-Yates, in place
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
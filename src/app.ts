@@ -1,252 +1,1060 @@
 import axios, { AxiosInstance, AxiosResponse } from "axios";
-import * as dotenv from "dotenv";
-import crypto from "crypto";
-import OpenAI from "openai";
-import { Ollama } from "ollama";
 import * as path from "path";
 import * as fs from "fs/promises";
-import { promisify } from "util";
+import * as readline from "readline/promises";
+import { aggregateAnalysis, getFreshEvidenceSample } from "./aggregate";
+import {
+  exportBatchSummary,
+  loadBatchState,
+  newBatchState,
+  readUsersFile,
+  saveBatchState,
+} from "./batch";
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  SKILLS_SCHEMA_VERSION,
+  formatAge,
+  isFresh,
+  readAnalysisCache,
+  readSkillsCache,
+} from "./cache";
+import { CliOptions, getHelpText, parseCli } from "./cli";
+import {
+  AppConfig,
+  CACHE_DIR,
+  SKILLS_CACHE_FILE,
+  getBatchStateFile,
+  getHistoryDir,
+  getRecommendationsFile,
+  getReviewFile,
+  getShortlistFile,
+  getUserCacheFile,
+  loadConfig,
+} from "./config";
+import { aggregateConsensus, formatConsensus } from "./consensus";
+import { formatSignals } from "./content";
+import { contributionWeight } from "./contribution";
+import { getCredentialBackend } from "./credentials";
+import { verifyRecommendations } from "./evidence";
+import { now, startFixtures } from "./fixtures";
+import {
+  analyzeRepo,
+  analyzeRepos,
+  createGitHubClient,
+  discoverRepos,
+  getApiCallsCounter,
+  logGitHubStats,
+  resolveLogin,
+} from "./github";
+import {
+  GitHubTokenInfo,
+  SCOPE_PROFILES,
+  checkTokenScopes,
+  revokeGitHubToken,
+  runDeviceFlow,
+  validateGitHubToken,
+} from "./github-auth";
+import {
+  analyzeRepoGraphQL,
+  discoverReposGraphQL,
+  getGraphQLBudget,
+} from "./graphql";
+import {
+  diffRuns,
+  formatRunDiff,
+  formatRunList,
+  loadRuns,
+  recordRun,
+  resolveRun,
+} from "./history";
+import { callLLM, resolveLlmModel, validateLlmConfig } from "./llm";
+import {
+  LlmOutputResult,
+  buildRepairPrompt,
+  parseLlmRecommendations,
+  recommendationsJsonSchema,
+} from "./llm-schema";
+import { assertPromptAllowed, createPromptRedactor } from "./privacy";
+import { formatRepoBreakdown, fromRepoSummary } from "./repos";
+import {
+  buildReportData,
+  getReportFile,
+  redactPrivateRepos,
+  renderReport,
+} from "./report";
+import { buildSkillShortlist } from "./retrieval";
+import {
+  dropRejected,
+  loadReviewDecisions,
+  reviewRecommendations,
+  saveReviewDecisions,
+} from "./review";
+import {
+  applySkillRules,
+  loadSkillRules,
+  mergeRecommendations,
+} from "./rules";
+import { formatRepoSelection, selectRepos } from "./selection";
+import {
+  addMemberSkills,
+  createTopcoderClient,
+  getMemberSkillIds,
+  resolveMemberUserId,
+  toMemberSkillPayload,
+} from "./topcoder";
+import {
+  CachedSkills,
+  CachedUserAnalysis,
+  LlmExchange,
+  LlmMessage,
+  LlmRecommendation,
+  Recommendation,
+  RepoAnalysis,
+  SavedRecommendations,
+  Skill,
+  SkillCandidate,
+  SkillShortlist,
+} from "./types";
 
-const sleep = promisify(setTimeout);
-dotenv.config();
+// ── Helpers ──────────────────────────────────────────────────────────────────
+async function ensureCacheDir() {
+  await fs.mkdir(CACHE_DIR, { recursive: true }).catch(() => {});
+}
 
-// ── Configuration & Constants ───────────────────────────────────────────────
-const CACHE_DIR = path.join(process.cwd(), ".cache");
-const SKILLS_CACHE_FILE = path.join(CACHE_DIR, "topcoder-skills.json");
-const getUserCacheFile = (username: string | undefined) => {
-    const safe = (username || "unknown").replace(/[^a-zA-Z0-9_-]/g, "");
-    return path.join(CACHE_DIR, `github-${safe.toLowerCase()}.json`);
-  };
+// ── Main ─────────────────────────────────────────────────────────────────────
+async function main() {
+  let cli: ReturnType<typeof parseCli>;
+  try {
+    cli = parseCli();
+  } catch (err: any) {
+    console.error(err.message);
+    console.error('Run "npm start -- --help" for usage.');
+    process.exit(1);
+  }
+
+  const { command, subcommand, options } = cli;
+  if (command === "help") {
+    console.log(getHelpText(subcommand));
+    return;
+  }
+
+  const config = loadConfig(options);
+  startFixtures(config);
+  await ensureCacheDir();
 
-const MAX_REPOS_TO_ANALYZE = (() => {
-  const val = process.env.MAX_REPOS_TO_ANALYZE;
-  return val ? Math.max(1, Math.min(100, parseInt(val, 10))) : 10;
-})();
-
-const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID;
-const LLM_PROVIDER = process.env.LLM_PROVIDER;
-const HUGGINGFACE_TOKEN = process.env.HUGGINGFACE_TOKEN;
-const OLLAMA_API_KEY = process.env.OLLAMA_API_KEY;
-
-if (!GITHUB_CLIENT_ID) throw new Error("GITHUB_CLIENT_ID is required in .env");
-if (LLM_PROVIDER === "huggingface_router" && !HUGGINGFACE_TOKEN) {
-  throw new Error("HUGGINGFACE_TOKEN is required for huggingface_router");
-}
-if (LLM_PROVIDER === "ollama_cloud" && !OLLAMA_API_KEY) {
-  throw new Error("OLLAMA API KEY is required for ollama_cloud");
-}
-
-// ── Types ────────────────────────────────────────────────────────────────────
-interface Skill {
-  id: string;
-  name: string;
-}
-interface Recommendation {
-  id: string;
-  name: string;
-  score: number;
-  info: string;
-}
-interface RepoAnalysis {
-  languages: Record<string, number>;
-  dependencies: Set<string>;
-  fileTypes: Set<string>;
-  commitCount: number;
-  prCount: number;
-  evidence: string[];
-}
-interface CachedUserAnalysis {
-  timestamp: string;
-  username: string;
-  reposCount: number;
-  analyzedRepos: number;
-  totalCommits: number;
-  totalPRs: number;
-  langPercentages: string[];
-  topDependencies: string[];
-  topFileTypes: string[];
-  allEvidenceLinks: string[];
-  reposToAnalyze: string[];
+  switch (command) {
+    case "auth":
+      return runAuth(config, options, subcommand);
+    case "analyze":
+      return runAnalyze(config, options);
+    case "recommend":
+      return runRecommend(config, options);
+    case "batch":
+      return runBatch(config, options, cli.argument!);
+    case "report":
+      return runReport(config, options);
+    case "review":
+      return runReview(config, options);
+    case "rules":
+      return runRules(config, options);
+    case "import":
+      return runImport(config, options);
+    case "history":
+      return runHistory(config, options);
+    case "diff":
+      return runDiff(config, options);
+    case "cache":
+      return subcommand === "clear"
+        ? clearCache(options.user)
+        : showCache(options.user);
+    case "skills":
+      await loadOrFetchSkills(getApiCallsCounter(), config, true);
+      return;
+  }
 }
 
-// ── Helpers ──────────────────────────────────────────────────────────────────
-async function ensureCacheDir() {
-  await fs.mkdir(CACHE_DIR, { recursive: true }).catch(() => {});
+// ── Commands ─────────────────────────────────────────────────────────────────
+async function connectGitHub(
+  config: AppConfig,
+  options: CliOptions,
+  apiCalls: ReturnType<typeof getApiCallsCounter>
+) {
+  const { token, login: viewer } = await authenticateGitHub(config, apiCalls);
+  const github = createGitHubClient(token, apiCalls, config);
+
+  const username = options.user
+    ? await resolveLogin(github, options.user, apiCalls)
+    : viewer;
+
+  return { github, viewer, username };
 }
 
-function getApiCallsCounter() {
-  let count = 0;
-  return {
-    increment: () => count++,
-    get: () => count,
-  };
+const isSameLogin = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+async function runAuth(
+  config: AppConfig,
+  options: CliOptions,
+  subcommand?: string
+) {
+  if (subcommand === "status") return showAuthStatus(config);
+  if (subcommand === "logout") return logoutGitHub(config);
+  const { viewer } = await connectGitHub(
+    config,
+    { ...options, user: undefined },
+    getApiCallsCounter()
+  );
+  console.log(`Authenticated as @${viewer}`);
 }
 
-// ── Main ─────────────────────────────────────────────────────────────────────
-async function main() {
+async function runAnalyze(config: AppConfig, options: CliOptions) {
   const startTime = Date.now();
   const apiCalls = getApiCallsCounter();
   const searchCalls = getApiCallsCounter();
 
-  await ensureCacheDir();
+  const { github, viewer, username } = await connectGitHub(
+    config,
+    options,
+    apiCalls
+  );
+  logTarget(username, viewer);
 
-  // 1. Authenticate
-  const accessToken = await authenticateGitHub(apiCalls);
-  const github = createGitHubClient(accessToken, apiCalls);
+  const analysis = await loadOrComputeAnalysis(
+    github,
+    username,
+    isSameLogin(username, viewer),
+    config,
+    apiCalls,
+    searchCalls
+  );
 
-  // 2. Get username
-  const username = await getUsername(github, apiCalls);
-  console.log(`Analyzing @${username}\n`);
+  console.log("\nAnalysis Summary:");
+  console.log(`Repos discovered: ${analysis.reposCount}`);
+  console.log(`Repos analyzed: ${analysis.analyzedRepos}`);
+  console.log(`Commits: ${analysis.totalCommits} | PRs: ${analysis.totalPRs}`);
+  console.log(`Evidence links: ${analysis.allEvidenceLinks.length}`);
+  console.log(`Total API calls: ${apiCalls.get() + searchCalls.get()}`);
+  logGitHubStats(github);
+  const elapsed = (Date.now() - startTime) / 1000;
+  console.log(`Elapsed: ${elapsed.toFixed(2)} seconds`);
+}
+
+async function runRecommend(config: AppConfig, options: CliOptions) {
+  validateLlmConfig(config);
+
+  const startTime = Date.now();
+  const apiCalls = getApiCallsCounter();
+  const searchCalls = getApiCallsCounter();
+
+  // 1. Authenticate & resolve the target user
+  const { github, viewer, username } = await connectGitHub(
+    config,
+    options,
+    apiCalls
+  );
+  logTarget(username, viewer);
 
-  // 3. Load or fetch Topcoder skills (cached)
-  const allSkills = await loadOrFetchSkills(apiCalls);
+  // 2. Load or fetch Topcoder skills (cached)
+  const allSkills = await loadOrFetchSkills(apiCalls, config);
 
-  // 4. Load or compute GitHub analysis (cached)
+  // 3–8. Analyze, apply rules, prompt, parse & display
+  await recommendForUser(
+    github,
+    username,
+    isSameLogin(username, viewer),
+    allSkills,
+    config,
+    apiCalls,
+    searchCalls,
+    startTime,
+    config.outputFile
+  );
+  logGitHubStats(github);
+}
+
+async function runBatch(
+  config: AppConfig,
+  options: CliOptions,
+  usersFile: string
+) {
+  validateLlmConfig(config);
+
+  const users = await readUsersFile(usersFile);
+  if (users.length === 0) throw new Error(`No GitHub logins in ${usersFile}`);
+
+  const stateFile = getBatchStateFile(usersFile);
+  const state = config.useCache
+    ? await loadBatchState(stateFile, usersFile)
+    : newBatchState(usersFile);
+  const pending = users.filter((u) => !state.completed[u.toLowerCase()]);
+  console.log(
+    `Batch: ${users.length} users from ${usersFile} (${
+      users.length - pending.length
+    } already done, ${pending.length} pending)\n`
+  );
+
+  const apiCalls = getApiCallsCounter();
+  const searchCalls = getApiCallsCounter();
+  const { github, viewer } = await connectGitHub(
+    config,
+    { ...options, user: undefined },
+    apiCalls
+  );
+  const allSkills = await loadOrFetchSkills(apiCalls, config);
+
+  for (const [i, login] of pending.entries()) {
+    console.log(`\n═══ [${i + 1}/${pending.length}] @${login} ═══`);
+    const startTime = Date.now();
+    const callsBefore = apiCalls.get() + searchCalls.get();
+    try {
+      const username = await resolveLogin(github, login, apiCalls);
+      logTarget(username, viewer);
+      const { analysis, recommendations, reportFile } = await recommendForUser(
+        github,
+        username,
+        isSameLogin(username, viewer),
+        allSkills,
+        config,
+        apiCalls,
+        searchCalls,
+        startTime,
+        undefined,
+        callsBefore
+      );
+      state.completed[login.toLowerCase()] = {
+        username,
+        finishedAt: new Date(now()).toISOString(),
+        reportFile,
+        analyzedRepos: analysis.analyzedRepos,
+        totalCommits: analysis.totalCommits,
+        totalPRs: analysis.totalPRs,
+        topSkills: recommendations
+          .slice(0, 5)
+          .map((r) => ({ name: r.name, score: r.score })),
+      };
+      delete state.failed[login.toLowerCase()];
+    } catch (err: any) {
+      console.error(`Batch: @${login} failed — ${err.message}`);
+      state.failed[login.toLowerCase()] = err.message;
+    }
+    // Persist after every user so an interrupted batch resumes here
+    await saveBatchState(stateFile, state);
+  }
+
+  const summaryFile = await exportBatchSummary(
+    users,
+    state,
+    config.outputFile
+  );
+  console.log(`\nBatch summary exported to: ${summaryFile}`);
+}
+
+function logTarget(username: string, viewer: string) {
+  if (isSameLogin(username, viewer)) {
+    console.log(`Analyzing @${username}\n`);
+  } else {
+    console.log(
+      `Analyzing @${username} (public activity, token owner @${viewer})\n`
+    );
+  }
+}
+
+// ── Recommend for one user ───────────────────────────────────────────────────
+async function recommendForUser(
+  github: AxiosInstance,
+  username: string,
+  isViewer: boolean,
+  allSkills: Skill[],
+  config: AppConfig,
+  apiCalls: ReturnType<typeof getApiCallsCounter>,
+  searchCalls: ReturnType<typeof getApiCallsCounter>,
+  startTime: number,
+  outputFile?: string,
+  callsBefore = 0
+) {
+  // 3. Load or compute GitHub analysis (cached)
   const analysis = await loadOrComputeAnalysis(
     github,
     username,
+    isViewer,
+    config,
     apiCalls,
     searchCalls
   );
 
-  // 5. Build prompt
-  const sampleSize = parseInt(process.env.EVIDENCE_SAMPLE_SIZE || "12", 10);
-  const evidenceSample = getFreshEvidenceSample(
-    analysis.allEvidenceLinks,
-    sampleSize
+  // Skills rejected in an earlier review are never proposed again
+  const reviewFile = getReviewFile(username);
+  const decisions = await loadReviewDecisions(reviewFile, username);
+  const skills = allSkills.filter((s) => !decisions.rejected[s.id]);
+
+  // 4. Deterministic baseline from the skill rules (no model involved)
+  const ruleRecommendations = applySkillRules(
+    analysis,
+    await loadSkillRules(config.skillRulesFile),
+    skills
+  );
+  console.log(`Rule-based matches: ${ruleRecommendations.length}`);
+
+  let recommendations = ruleRecommendations;
+  let shortlist: SkillCandidate[] | undefined;
+  const exchanges: LlmExchange[] = [];
+  if (!config.rulesOnly) {
+    assertPromptAllowed(analysis, config);
+
+    // 5. Shortlist candidate skills for the prompt
+    shortlist = await buildAndSaveShortlist(analysis, skills, config);
+
+    // 6–7. Prompt the LLM: once, or once per consensus run with a fresh
+    // evidence sample each time
+    let llmRecommendations: Recommendation[];
+    if (config.consensusRuns > 1) {
+      const runs: Recommendation[][] = [];
+      for (let i = 0; i < config.consensusRuns; i++) {
+        const model =
+          config.consensusModels[i % config.consensusModels.length] ??
+          config.llmModel;
+        console.log(
+          `\n── Consensus run ${i + 1}/${config.consensusRuns}${
+            model ? ` (${model})` : ""
+          } ──`
+        );
+        runs.push(
+          await sampleLlmRecommendations(
+            analysis,
+            shortlist,
+            allSkills,
+            { ...config, llmModel: model },
+            exchanges,
+            0
+          )
+        );
+      }
+      // The cut-off applies to the consensus score, not to each run: a skill
+      // scored 35 and 55 averages 45 instead of counting as a single 55
+      llmRecommendations = aggregateConsensus(
+        runs,
+        config.consensusMinAgreement
+      ).filter((r) => r.score >= MIN_LLM_SCORE);
+      const unstable = llmRecommendations.filter((r) => r.consensus?.unstable);
+      console.log(
+        `Consensus over ${runs.length} runs: ${llmRecommendations.length} skills, ${unstable.length} unstable`
+      );
+    } else {
+      llmRecommendations = await sampleLlmRecommendations(
+        analysis,
+        shortlist,
+        allSkills,
+        config,
+        exchanges
+      );
+    }
+    recommendations = dropRejected(
+      mergeRecommendations(llmRecommendations, ruleRecommendations),
+      decisions
+    );
+  }
+
+  // Optional interactive review before anything is saved or exported
+  if (config.review) {
+    recommendations = await reviewRecommendations(
+      recommendations,
+      analysis,
+      shortlist ?? buildSkillShortlist(analysis, skills, config.shortlistSize),
+      decisions
+    );
+    await saveReviewDecisions(reviewFile, decisions);
+  }
+
+  // 8. Save & display results
+  const totalApiCalls = apiCalls.get() + searchCalls.get() - callsBefore;
+  await saveRecommendations(
+    username,
+    recommendations,
+    totalApiCalls,
+    startTime
+  );
+  const elapsed = displayResults(
+    recommendations,
+    analysis,
+    totalApiCalls,
+    startTime
+  );
+  await recordRunHistory(config, analysis, {
+    command: "recommend",
+    llm: config.rulesOnly
+      ? undefined
+      : {
+          provider: config.llmProvider,
+          model: describeLlmModel(config),
+          consensusRuns:
+            config.consensusRuns > 1 ? config.consensusRuns : undefined,
+          shortlist: { totalSkills: skills.length, candidates: shortlist! },
+          exchanges,
+        },
+    recommendations,
+    totalApiCalls,
+    elapsedSeconds: elapsed,
+  });
+  const reportFile = await exportResultsToFile(
+    username,
+    recommendations,
+    analysis,
+    totalApiCalls,
+    elapsed,
+    config,
+    outputFile
+  );
+
+  return { analysis, recommendations, reportFile };
+}
+
+async function loadSavedRecommendations(username: string) {
+  try {
+    const saved: SavedRecommendations = JSON.parse(
+      await fs.readFile(getRecommendationsFile(username), "utf-8")
+    );
+    return saved;
+  } catch {
+    throw new Error(
+      `No saved recommendations for @${username} — run "recommend" first`
+    );
+  }
+}
+
+async function runReport(config: AppConfig, options: CliOptions) {
+  const username =
+    options.user ??
+    (await connectGitHub(config, options, getApiCallsCounter())).username;
+
+  const saved = await loadSavedRecommendations(username);
+  // Null for a cache of another schema version (the reason is logged)
+  const analysis = await readAnalysisCache(getUserCacheFile(username));
+  if (!analysis) {
+    throw new Error(
+      `No cached analysis for @${username} — run "analyze" first`
+    );
+  }
+
+  console.log(`Using recommendations for @${username} (${saved.timestamp})`);
+  await exportResultsToFile(
+    saved.username,
+    saved.recommendations,
+    analysis,
+    saved.totalApiCalls,
+    saved.elapsedSeconds,
+    config,
+    config.outputFile
+  );
+}
+
+// ── Review saved recommendations ────────────────────────────────────────────
+async function runReview(config: AppConfig, options: CliOptions) {
+  const username =
+    options.user ??
+    (await connectGitHub(config, options, getApiCallsCounter())).username;
+
+  const saved = await loadSavedRecommendations(username);
+  const analysis = await readAnalysisCache(getUserCacheFile(username));
+  if (!analysis) {
+    throw new Error(
+      `No cached analysis for @${username} — run "analyze" first`
+    );
+  }
+  // Alternatives come from the cached skills list; without one the review
+  // still works, just with nothing to swap in
+  const cachedSkills = await readSkillsCache(SKILLS_CACHE_FILE);
+  const reviewFile = getReviewFile(username);
+  const decisions = await loadReviewDecisions(reviewFile, username);
+  const skills = (cachedSkills?.skills || []).filter(
+    (s) => !decisions.rejected[s.id]
   );
-  const prompt = buildPrompt({ ...analysis, evidenceSample }, allSkills);
 
-  // 6. Call LLM
-  console.log(`Querying LLM using ${process.env.HF_MODEL}...`);
-  console.log(`Prompt: ${prompt}`);
   console.log(
-    `Prompt length: ${prompt.length} chars (~${Math.round(
-      prompt.length / 4
-    )} tokens)`
+    `Reviewing recommendations for @${username} (${saved.timestamp})`
+  );
+  const recommendations = await reviewRecommendations(
+    saved.recommendations,
+    analysis,
+    buildSkillShortlist(analysis, skills, config.shortlistSize),
+    decisions
   );
-  const llmResponse = await callLLM(prompt);
+  await saveReviewDecisions(reviewFile, decisions);
 
-  // 7. Parse & display results
-  const recommendations = parseAndMapRecommendations(llmResponse, allSkills);
-  displayResults(
+  const reviewed: SavedRecommendations = {
+    ...saved,
+    timestamp: new Date().toISOString(),
+    recommendations,
+  };
+  await fs.writeFile(
+    getRecommendationsFile(username),
+    JSON.stringify(reviewed, null, 2)
+  );
+  await recordRunHistory(config, analysis, {
+    command: "review",
+    recommendations,
+    totalApiCalls: saved.totalApiCalls,
+    elapsedSeconds: saved.elapsedSeconds,
+  });
+  await exportResultsToFile(
+    saved.username,
     recommendations,
     analysis,
-    apiCalls.get() + searchCalls.get(),
-    startTime
+    saved.totalApiCalls,
+    saved.elapsedSeconds,
+    config,
+    config.outputFile
   );
 }
 
-// ── Authenticate ─────────────────────────────────────────────────────────────
-async function authenticateGitHub(
-  apiCalls: ReturnType<typeof getApiCallsCounter>
-): Promise<string> {
-  let token = process.env.GITHUB_ACCESS_TOKEN?.trim();
+// ── Offline rule-based recommendations ──────────────────────────────────────
+async function runRules(config: AppConfig, options: CliOptions) {
+  if (!options.user) {
+    throw new Error('"rules" runs offline and needs --user <login>');
+  }
+  const startTime = Date.now();
+  const analysis = await readAnalysisCache(getUserCacheFile(options.user));
+  if (!analysis) {
+    throw new Error(
+      `No cached analysis for @${options.user} — run "analyze" first`
+    );
+  }
 
-  if (token) {
-    console.log("Using cached GitHub token from .env");
-    return token;
+  // Any cached skills list will do offline; rules with a pinned id work
+  // without one
+  const cachedSkills = await readSkillsCache(SKILLS_CACHE_FILE);
+  if (!cachedSkills) {
+    console.warn("No cached Topcoder skills — only rules with an id apply");
   }
 
-  console.log("Initiating GitHub device flow authentication...");
-  const codeRes = await axios.post(
-    "https://github.com/login/device/code",
-    { client_id: GITHUB_CLIENT_ID, scope: "user repo" },
-    { headers: { Accept: "application/json" } }
+  const recommendations = applySkillRules(
+    analysis,
+    await loadSkillRules(config.skillRulesFile),
+    cachedSkills?.skills || []
   );
-  apiCalls.increment();
+  console.log(
+    `Rule-based matches for @${analysis.username} (analysis from ${analysis.timestamp}): ${recommendations.length}`
+  );
+  const elapsed = displayResults(recommendations, analysis, 0, startTime);
+  await recordRunHistory(config, analysis, {
+    command: "rules",
+    recommendations,
+    totalApiCalls: 0,
+    elapsedSeconds: elapsed,
+  });
+  await exportResultsToFile(
+    analysis.username,
+    recommendations,
+    analysis,
+    0,
+    elapsed,
+    { ...config, rulesOnly: true },
+    config.outputFile
+  );
+}
 
-  const { device_code, user_code, verification_uri, interval, expires_in } =
-    codeRes.data;
+// ── Run history ─────────────────────────────────────────────────────────────
+async function recordRunHistory(
+  config: AppConfig,
+  analysis: CachedUserAnalysis,
+  run: Parameters<typeof recordRun>[2]
+) {
+  if (!config.runHistory) return;
+  try {
+    const id = await recordRun(getHistoryDir(analysis.username), analysis, run);
+    console.log(`Run recorded in history: ${id}`);
+  } catch (err) {
+    console.error(`Failed to record the run: ${err}`);
+  }
+}
+
+async function runHistory(config: AppConfig, options: CliOptions) {
+  const username =
+    options.user ??
+    (await connectGitHub(config, options, getApiCallsCounter())).username;
+  const runs = await loadRuns(getHistoryDir(username));
+  if (runs.length === 0) {
+    console.log(`No recorded runs for @${username}`);
+    return;
+  }
+  console.log(`Runs for @${username} (${runs.length}):`);
+  console.log(formatRunList(runs));
+}
 
-  console.log(`\n→ Go to: ${verification_uri}`);
-  console.log(`→ Code: ${user_code}\n`);
+async function runDiff(config: AppConfig, options: CliOptions) {
+  const username =
+    options.user ??
+    (await connectGitHub(config, options, getApiCallsCounter())).username;
+  const runs = await loadRuns(getHistoryDir(username));
+  const from = resolveRun(runs, options.from ?? "previous");
+  const to = resolveRun(runs, options.to ?? "latest");
+  if (from.id === to.id) {
+    throw new Error(`--from and --to both resolve to run ${from.id}`);
+  }
 
-  const start = Date.now();
-  while (Date.now() - start < expires_in * 1000) {
-    await sleep(interval * 1000);
-    try {
-      const tokenRes = await axios.post(
-        "https://github.com/login/oauth/access_token",
-        {
-          client_id: GITHUB_CLIENT_ID,
-          device_code,
-          grant_type: "urn:ietf:params:oauth:grant-type:device_code",
-        },
-        { headers: { Accept: "application/json" } }
+  const diff = diffRuns(from, to);
+  console.log(
+    config.reportFormat === "json"
+      ? JSON.stringify(diff, null, 2)
+      : `@${username}: ${formatRunDiff(diff)}`
+  );
+}
+
+// ── Import into the Topcoder profile ────────────────────────────────────────
+async function runImport(config: AppConfig, options: CliOptions) {
+  const username =
+    options.user ??
+    (await connectGitHub(config, options, getApiCallsCounter())).username;
+  const saved = await loadSavedRecommendations(username);
+
+  // 1. Select
+  let selected = saved.recommendations.filter(
+    (r) => r.score >= (options.minScore ?? 0)
+  );
+  if (options.skills) {
+    const wanted = options.skills.map((s) => s.toLowerCase());
+    selected = selected.filter(
+      (r) =>
+        wanted.includes(r.id.toLowerCase()) ||
+        wanted.includes(r.name.toLowerCase())
+    );
+    const missing = wanted.filter(
+      (w) =>
+        !selected.some(
+          (r) => r.id.toLowerCase() === w || r.name.toLowerCase() === w
+        )
+    );
+    if (missing.length > 0) {
+      console.warn(
+        `Not among the selected recommendations: ${missing.join(", ")}`
       );
-      apiCalls.increment();
+    }
+  }
+  if (selected.length === 0) {
+    console.log("Nothing to import");
+    return;
+  }
 
-      const data = tokenRes.data;
-      if (data.access_token) {
-        console.log("\nAuthentication successful!");
-        console.log(`Token (add to .env): ${data.access_token}`);
-        return data.access_token;
-      }
-    } catch (err: any) {
-      console.error("Polling error:", err.message);
+  // 2. Resolve the member and drop skills already on the profile
+  if (!config.topcoderToken && !options.dryRun) {
+    throw new Error("TOPCODER_TOKEN is required to import skills");
+  }
+  const topcoder = createTopcoderClient(config);
+  let userId = config.topcoderUserId;
+  if (!userId) {
+    if (!config.topcoderHandle) {
+      throw new Error(
+        "Pass --handle <topcoder-handle> or set TOPCODER_HANDLE / TOPCODER_USER_ID"
+      );
+    }
+    userId = await resolveMemberUserId(topcoder, config.topcoderHandle);
+  }
+  const member = config.topcoderHandle ?? `user ${userId}`;
+
+  let existing = new Set<string>();
+  try {
+    existing = await getMemberSkillIds(topcoder, userId);
+  } catch (err: any) {
+    if (!options.dryRun) throw err;
+    console.warn(
+      `${err.message} — dry run continues without the duplicate check`
+    );
+  }
+  const duplicates = selected.filter((r) => existing.has(r.id));
+  duplicates.forEach((r) =>
+    console.log(`Already on the profile, skipping: ${r.name}`)
+  );
+  const toImport = selected.filter((r) => !existing.has(r.id));
+  if (toImport.length === 0) {
+    console.log(`All selected skills are already on ${member}'s profile`);
+    return;
+  }
+
+  // 3. Confirm
+  console.log(`\nSkills to import into Topcoder member ${member}:`);
+  toImport.forEach((r) =>
+    console.log(
+      `  ${r.name} (${r.id}) — score ${r.score}, ${r.source ?? "llm"}`
+    )
+  );
+  const payload = toImport.map((r) =>
+    toMemberSkillPayload(r, config.topcoderSkillLevelId)
+  );
+  if (options.dryRun) {
+    console.log(
+      `\nDry run — would POST ${config.topcoderApiUrl}/standardized-skills/user-skills/${userId}:`
+    );
+    console.log(JSON.stringify({ skills: payload }, null, 2));
+    return;
+  }
+  if (!options.yes) {
+    if (!process.stdin.isTTY) {
+      throw new Error("Not a terminal: confirm the import with --yes");
+    }
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+    const answer = await rl.question(
+      `Import ${toImport.length} skill(s)? [y/N] `
+    );
+    rl.close();
+    if (!/^y(es)?$/i.test(answer.trim())) {
+      console.log("Import cancelled");
+      return;
+    }
+  }
+
+  // 4. Submit
+  await addMemberSkills(topcoder, userId, payload);
+  console.log(
+    `Imported ${toImport.length} skill(s) into ${member}'s profile${
+      duplicates.length ? ` (${duplicates.length} already present)` : ""
+    }`
+  );
+}
+
+// ── Cache management ─────────────────────────────────────────────────────────
+function getUserCacheFiles(username: string) {
+  return [
+    getUserCacheFile(username),
+    getShortlistFile(username),
+    getRecommendationsFile(username),
+    getReviewFile(username),
+  ];
+}
+
+async function clearCache(username?: string) {
+  const files = username
+    ? getUserCacheFiles(username)
+    : (await fs.readdir(CACHE_DIR)).map((f) => path.join(CACHE_DIR, f));
+
+  let removed = 0;
+  for (const file of files) {
+    try {
+      await fs.rm(file, { recursive: true });
+      console.log(`Removed ${path.relative(process.cwd(), file)}`);
+      removed++;
+    } catch {}
+  }
+  console.log(
+    removed ? `Cleared ${removed} cache file(s)` : "Nothing to clear"
+  );
+}
+
+async function showCache(username?: string) {
+  if (username) {
+    const cached = await readAnalysisCache(getUserCacheFile(username));
+    if (!cached) {
+      console.log(`No cached analysis for @${username}`);
+      return;
+    }
+    console.log(`Cached analysis for @${cached.username}`);
+    console.log(`Timestamp: ${cached.timestamp}`);
+    console.log(`Repos discovered: ${cached.reposCount}`);
+    console.log(`Repos analyzed: ${cached.analyzedRepos}`);
+    console.log(
+      `Visibility: scope profile ${cached.visibility.profile}, ${cached.visibility.privateRepos.length} private repo(s) analyzed`
+    );
+    console.log(`Commits: ${cached.totalCommits} | PRs: ${cached.totalPRs}`);
+    console.log(
+      `Languages (weighted):\n  ${cached.langPercentages.join("\n  ")}`
+    );
+    console.log(
+      `Dependencies: ${
+        cached.topDependencies.length
+      } (strongest: ${cached.dependencyWeights
+        .slice(0, 10)
+        .map((d) => `${d.name} ${d.weight}`)
+        .join(", ")})`
+    );
+    console.log(`File types: ${cached.topFileTypes.join(", ")}`);
+    console.log(`Evidence links: ${cached.allEvidenceLinks.length}`);
+    if (cached.repoSelection) {
+      console.log("\nRepository selection:");
+      console.log(formatRepoSelection(cached.repoSelection));
+    }
+    if (cached.repos) {
+      console.log("\nPer-repository breakdown:");
+      console.log(formatRepoBreakdown(cached));
+    }
+    return;
+  }
+
+  const files = await fs.readdir(CACHE_DIR);
+  if (files.length === 0) {
+    console.log("Cache is empty");
+    return;
+  }
+  for (const file of files.sort()) {
+    const stat = await fs.stat(path.join(CACHE_DIR, file));
+    console.log(
+      `${file.padEnd(40)} ${(stat.size / 1024).toFixed(1).padStart(8)} KB  ${stat.mtime.toISOString()}`
+    );
+  }
+}
+
+// ── Authenticate ─────────────────────────────────────────────────────────────
+// GITHUB_ACCESS_TOKEN first (CI), then the credential store, then the device
+// flow. Every token is checked with `GET /user` before use; a stored token
+// GitHub rejects is dropped and replaced.
+const GITHUB_CREDENTIAL = "github";
+
+function warnTokenScopes(info: GitHubTokenInfo, config: AppConfig) {
+  checkTokenScopes(info, config.scopeProfile).forEach((w) => console.warn(w));
+}
+
+async function authenticateGitHub(
+  config: AppConfig,
+  apiCalls: ReturnType<typeof getApiCallsCounter>
+): Promise<{ token: string; login: string }> {
+  const profile = SCOPE_PROFILES[config.scopeProfile];
+  console.log(`Scope profile: ${config.scopeProfile} — ${profile.label}`);
+  if (config.githubToken) {
+    const info = await validateGitHubToken(config.githubToken, apiCalls);
+    if (!info) throw new Error("GITHUB_ACCESS_TOKEN is invalid or revoked");
+    console.log(`Using GITHUB_ACCESS_TOKEN (@${info.login})`);
+    warnTokenScopes(info, config);
+    return { token: config.githubToken, login: info.login };
+  }
+  if (!profile.deviceFlow) {
+    throw new Error(
+      `The ${config.scopeProfile} scope profile needs GITHUB_ACCESS_TOKEN (a fine-grained token with read-only Contents and Metadata access)`
+    );
+  }
+
+  const backend = getCredentialBackend(config.credentialBackend);
+  const stored = await backend.load(GITHUB_CREDENTIAL, config);
+  // A token requested for another profile has other scopes: sign in again
+  if (stored && (stored.profile ?? "private") === config.scopeProfile) {
+    const info = await validateGitHubToken(stored.token, apiCalls);
+    if (info) {
+      console.log(
+        `Using stored GitHub token (@${info.login}, ${backend.label})`
+      );
+      warnTokenScopes(info, config);
+      return { token: stored.token, login: info.login };
     }
+    console.warn("Stored GitHub token was rejected (expired or revoked)");
+    await backend.remove(GITHUB_CREDENTIAL, config);
+  } else if (stored) {
+    console.log(
+      `Stored GitHub token is for the ${
+        stored.profile ?? "private"
+      } scope profile — signing in again`
+    );
   }
 
-  throw new Error("Authentication timed out or failed");
-}
-
-// ── Create GitHub client with rate limiting ─────────────────────────────────
-function createGitHubClient(
-  token: string,
-  apiCalls: ReturnType<typeof getApiCallsCounter>
-) {
-  const client = axios.create({
-    baseURL: "https://api.github.com",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/vnd.github.v3+json",
+  if (!config.githubClientId) {
+    throw new Error("GITHUB_CLIENT_ID is required in .env");
+  }
+  console.log("Initiating GitHub device flow authentication...");
+  const token = await runDeviceFlow(
+    config.githubClientId,
+    profile.scopes,
+    apiCalls
+  );
+  const info = await validateGitHubToken(token, apiCalls);
+  if (!info) throw new Error("GitHub issued a token that it then rejected");
+  warnTokenScopes(info, config);
+
+  await backend.save(
+    GITHUB_CREDENTIAL,
+    {
+      token,
+      login: info.login,
+      scopes: info.scopes ?? [],
+      profile: config.scopeProfile,
+      savedAt: new Date().toISOString(),
     },
-  });
+    config
+  );
+  console.log(
+    `\nAuthenticated as @${info.login} — token saved (${backend.label})`
+  );
+  return { token, login: info.login };
+}
 
-  client.interceptors.response.use(async (res) => {
-    apiCalls.increment();
-    const remaining = parseInt(res.headers["x-ratelimit-remaining"] || "0", 10);
-    const reset = parseInt(res.headers["x-ratelimit-reset"] || "0", 10);
-    if (remaining < 10 && reset > 0) {
-      const wait = reset * 1000 - Date.now() + 2000;
-      if (wait > 0) {
-        console.log(`Rate limit low. Waiting ${Math.round(wait / 1000)}s...`);
-        await sleep(wait);
-      }
-    }
-    return res;
-  });
+async function showAuthStatus(config: AppConfig) {
+  const apiCalls = getApiCallsCounter();
+  const backend = getCredentialBackend(config.credentialBackend);
+  const stored = await backend.load(GITHUB_CREDENTIAL, config);
+  const token = config.githubToken ?? stored?.token;
+  if (!token) {
+    console.log(`Not signed in (${backend.label}) — run "auth"`);
+    return;
+  }
 
-  return client;
+  console.log(
+    config.githubToken
+      ? "Token source: GITHUB_ACCESS_TOKEN"
+      : `Token source: ${backend.label}, saved ${stored!.savedAt} for the ${
+          stored!.profile ?? "private"
+        } scope profile`
+  );
+  console.log(`Scope profile in use: ${config.scopeProfile}`);
+  const info = await validateGitHubToken(token, apiCalls);
+  if (!info) {
+    console.log("Status: rejected by GitHub (expired or revoked)");
+    return;
+  }
+  console.log(`Status: valid, @${info.login}`);
+  console.log(
+    `Scopes: ${
+      info.scopes ? info.scopes.join(", ") || "none" : "not reported"
+    }`
+  );
+  warnTokenScopes(info, config);
 }
 
-// ── Get username ─────────────────────────────────────────────────────────────
-async function getUsername(
-  github: AxiosInstance,
-  apiCalls: ReturnType<typeof getApiCallsCounter>
-) {
-  const res = await github.get("/user");
-  apiCalls.increment();
-  return res.data.login;
+async function logoutGitHub(config: AppConfig) {
+  const apiCalls = getApiCallsCounter();
+  const backend = getCredentialBackend(config.credentialBackend);
+  const stored = await backend.load(GITHUB_CREDENTIAL, config);
+  if (!stored) {
+    console.log(`No stored GitHub token (${backend.label})`);
+  } else {
+    const revoked = await revokeGitHubToken(
+      stored.token,
+      config.githubClientId,
+      config.githubClientSecret,
+      apiCalls
+    );
+    await backend.remove(GITHUB_CREDENTIAL, config);
+    console.log(
+      revoked
+        ? "GitHub token revoked and removed"
+        : "GitHub token removed locally — set GITHUB_CLIENT_SECRET to also revoke it, or revoke the app at https://github.com/settings/applications"
+    );
+  }
+  if (config.githubToken) {
+    console.log("GITHUB_ACCESS_TOKEN is still set and is not managed here");
+  }
 }
 
-// ── Load or fetch Topcoder skills (cached forever) ───────────────────────────
+// ── Load or fetch Topcoder skills (cached, SKILLS_CACHE_TTL_HOURS) ──────────
 async function loadOrFetchSkills(
-  apiCalls: ReturnType<typeof getApiCallsCounter>
-) {
+  apiCalls: ReturnType<typeof getApiCallsCounter>,
+  config: AppConfig,
+  refresh = false
+): Promise<Skill[]> {
+  const cached = refresh ? null : await readSkillsCache(SKILLS_CACHE_FILE);
+  if (cached && isFresh(cached.timestamp, config.skillsCacheTtlHours)) {
+    console.log(`Loaded ${cached.skills.length} Topcoder skills from cache`);
+    return cached.skills;
+  }
+  if (cached) {
+    console.log(
+      `Topcoder skills cache is ${formatAge(cached.timestamp)} old — refreshing`
+    );
+  }
+
+  console.log("Fetching Topcoder skills...");
+  const skills: Skill[] = [];
   try {
-    const data = await fs.readFile(SKILLS_CACHE_FILE, "utf-8");
-    const skills = JSON.parse(data);
-    console.log(`Loaded ${skills.length} Topcoder skills from cache`);
-    return skills;
-  } catch {
-    console.log("Fetching Topcoder skills...");
-    const skills: Skill[] = [];
     let page = 1;
     while (true) {
       const res = await axios.get(
-        `https://api.topcoder-dev.com/v5/standardized-skills/skills?page=${page}&perPage=100`
+        `${config.topcoderApiUrl}/standardized-skills/skills?page=${page}&perPage=100`
       );
       apiCalls.increment();
       skills.push(...res.data.map((s: any) => ({ id: s.id, name: s.name })));
@@ -255,45 +1063,156 @@ async function loadOrFetchSkills(
       if (!next) break;
       page = parseInt(next, 10);
     }
-
-    await fs.writeFile(SKILLS_CACHE_FILE, JSON.stringify(skills, null, 2));
-    console.log(`Cached ${skills.length} skills`);
-    return skills;
+  } catch (err: any) {
+    if (!cached) throw err;
+    console.warn(
+      `Failed to refresh Topcoder skills (${err.message}) — using stale cache`
+    );
+    return cached.skills;
   }
+
+  const cacheData: CachedSkills = {
+    schemaVersion: SKILLS_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    skills,
+  };
+  await fs.writeFile(SKILLS_CACHE_FILE, JSON.stringify(cacheData, null, 2));
+  console.log(`Cached ${skills.length} skills`);
+  return skills;
 }
 
 // ── Load or compute GitHub analysis (cached per user) ────────────────────────
 async function loadOrComputeAnalysis(
   github: AxiosInstance,
   username: string,
+  isViewer: boolean,
+  config: AppConfig,
   apiCalls: ReturnType<typeof getApiCallsCounter>,
   searchCalls: ReturnType<typeof getApiCallsCounter>
 ): Promise<CachedUserAnalysis> {
   const cacheFile = getUserCacheFile(username);
 
-  // Try cache first
-  try {
-    const raw = await fs.readFile(cacheFile, "utf-8");
-    const cached = JSON.parse(raw) as CachedUserAnalysis;
-    console.log(`Using cached analysis for @${username} (${cached.timestamp})`);
-    return cached;
-  } catch {
-    console.log(`No cache for @${username} — full analysis required`);
+  // Try cache first (fresh → reuse, stale → incremental refresh or full)
+  let cached: CachedUserAnalysis | null = null;
+  if (!config.useCache) {
+    console.log(`Cache disabled (--no-cache) — full analysis for @${username}`);
+  } else {
+    cached = await readAnalysisCache(cacheFile);
+    if (!cached) {
+      console.log(`No cache for @${username} — full analysis required`);
+    } else if (cached.visibility.profile !== config.scopeProfile) {
+      // Never reuse private data for a public run (or miss it the other way)
+      console.log(
+        `Cached analysis for @${username} used the ${cached.visibility.profile} scope profile — full analysis required`
+      );
+      cached = null;
+    } else if (isFresh(cached.timestamp, config.analysisCacheTtlHours)) {
+      console.log(
+        `Using cached analysis for @${username} (${cached.timestamp})`
+      );
+      return cached;
+    } else if (!config.incremental) {
+      console.log(
+        `Cached analysis for @${username} is ${formatAge(
+          cached.timestamp
+        )} old — full analysis required`
+      );
+      cached = null;
+    } else {
+      console.log(
+        `Cached analysis for @${username} is ${formatAge(
+          cached.timestamp
+        )} old — incremental refresh`
+      );
+    }
   }
 
-  // ── Full analysis (only runs once or on cache miss) ───────────────────────
-  const reposSet = await discoverRepos(github, username, apiCalls, searchCalls);
-  const reposToAnalyze = Array.from(reposSet).slice(0, MAX_REPOS_TO_ANALYZE);
+  // ── Full or incremental analysis ──────────────────────────────────────────
+  const useGraphQL = config.collector === "graphql";
+  const { includePrivate } = SCOPE_PROFILES[config.scopeProfile];
+  const candidates = useGraphQL
+    ? await discoverReposGraphQL(github, username, apiCalls, includePrivate)
+    : await discoverRepos(
+        github,
+        username,
+        isViewer,
+        apiCalls,
+        searchCalls,
+        includePrivate
+      );
+  if (!includePrivate) {
+    // Search results may still name private repos; the public profile never
+    // analyzes them
+    const hidden = Array.from(candidates.keys()).filter(
+      (repo) => candidates.get(repo)!.private
+    );
+    hidden.forEach((repo) => candidates.delete(repo));
+    if (hidden.length > 0) {
+      console.log(
+        `Skipped ${hidden.length} private repo(s) (public scope profile)`
+      );
+    }
+  }
+  // Previously analyzed repos stay (their totals are in the cache), new ones
+  // fill the remaining MAX_REPOS_TO_ANALYZE slots by rank
+  const repoSelection = selectRepos(
+    candidates,
+    {
+      maxRepos: config.maxRepos,
+      include: config.repoInclude,
+      exclude: config.repoExclude,
+    },
+    cached?.reposToAnalyze,
+    now()
+  );
+  let reposToAnalyze = repoSelection.selected.map((r) => r.repo);
 
-  console.log(`Total unique repositories discovered: ${reposSet.size}`);
-  console.log(`Analyzing up to ${MAX_REPOS_TO_ANALYZE} repositories`);
+  console.log(`Total unique repositories discovered: ${candidates.size}`);
+  console.log(formatRepoSelection(repoSelection));
+  console.log(`Analyzing up to ${reposToAnalyze.length} repositories`);
 
-  const { repoAnalyses, totalCommits, totalPRs } = await analyzeRepos(
+  const { repos, changedRepos } = await analyzeRepos(
     github,
     username,
     reposToAnalyze,
-    apiCalls
+    config,
+    apiCalls,
+    cached?.repos,
+    useGraphQL ? analyzeRepoGraphQL : analyzeRepo
   );
+  if (useGraphQL) {
+    const budget = getGraphQLBudget(github);
+    console.log(
+      `GraphQL points used: ${budget.used} (remaining ${
+        budget.remaining ?? "?"
+      }, resets ${budget.resetAt ?? "?"})`
+    );
+  }
+  if (cached) {
+    console.log(
+      `Incremental: ${changedRepos.length} / ${reposToAnalyze.length} repos have new activity`
+    );
+  }
+  if (!includePrivate) {
+    // A repo found without visibility (PR search) may turn out private once
+    // its own metadata is read; the public profile drops it
+    const leaked = reposToAnalyze.filter(
+      (repo) => repos[repo]?.contribution?.private
+    );
+    leaked.forEach((repo) => delete repos[repo]);
+    reposToAnalyze = reposToAnalyze.filter((repo) => !leaked.includes(repo));
+    if (leaked.length > 0) {
+      console.log(
+        `Dropped ${leaked.length} private repo(s) after analysis (public scope profile)`
+      );
+    }
+  }
+
+  // Aggregate from the per-repo breakdown (fresh + carried over)
+  const repoAnalyses: Record<string, RepoAnalysis> = {};
+  Object.entries(repos).forEach(([repo, summary]) => {
+    repoAnalyses[repo] = fromRepoSummary(summary);
+  });
 
   // Aggregate ALL evidence links
   const allEvidenceLinks: string[] = [];
@@ -301,507 +1220,267 @@ async function loadOrComputeAnalysis(
     allEvidenceLinks.push(...a.evidence);
   });
 
-  const aggregated = aggregateAnalysis(repoAnalyses);
+  const repoWeights = Object.fromEntries(
+    Object.entries(repos).map(([repo, summary]) => [
+      repo,
+      contributionWeight(summary, now()).weight,
+    ])
+  );
+  const aggregated = aggregateAnalysis(repoAnalyses, repoWeights);
+  const repoList = Object.values(repoAnalyses);
 
   const cacheData: CachedUserAnalysis = {
-    timestamp: new Date().toISOString(),
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    timestamp: new Date(now()).toISOString(),
     username,
-    reposCount: reposSet.size,
+    reposCount: candidates.size,
     analyzedRepos: reposToAnalyze.length,
-    totalCommits,
-    totalPRs,
+    totalCommits: repoList.reduce((sum, a) => sum + a.commitCount, 0),
+    totalPRs: repoList.reduce((sum, a) => sum + a.prCount, 0),
     langPercentages: aggregated.langPercentages.split("\n"),
     topDependencies: aggregated.topDeps,
+    dependencyWeights: aggregated.dependencyWeights,
+    repoWeights,
     topFileTypes: aggregated.topFileTypes,
+    topSignals: aggregated.topSignals,
     allEvidenceLinks,
     reposToAnalyze,
+    repoSelection,
+    visibility: {
+      profile: config.scopeProfile,
+      // The repo's own metadata wins over discovery (PR search hits carry
+      // no visibility)
+      privateRepos: reposToAnalyze.filter(
+        (repo) =>
+          repos[repo]?.contribution?.private ??
+          candidates.get(repo)?.private ??
+          false
+      ),
+    },
+    repos,
   };
 
   await fs.writeFile(cacheFile, JSON.stringify(cacheData, null, 2));
   console.log(
-    `Saved full analysis cache for @${username} (${allEvidenceLinks.length} evidence links)`
+    `Saved ${cached ? "incremental" : "full"} analysis cache for @${username} (${
+      cacheData.allEvidenceLinks.length
+    } evidence links)`
   );
 
   return cacheData;
 }
 
-// ── Discover repos ───────────────────────────────────────────────────────────
-async function discoverRepos(
-  github: AxiosInstance,
-  username: string,
-  apiCalls: ReturnType<typeof getApiCallsCounter>,
-  searchCalls: ReturnType<typeof getApiCallsCounter>
-) {
-  const repos = new Set<string>();
-
-  // Owned/member repos
-  let page = 1;
-  while (true) {
-    const res = await github.get(
-      `/user/repos?type=all&per_page=100&page=${page}`
-    );
-    apiCalls.increment();
-    const data = res.data;
-    if (data.length === 0) break;
-    data.forEach((r: any) => repos.add(r.full_name));
-    page++;
-  }
-
-  // Commits search
-  page = 1;
-  while (true) {
-    try {
-      if (page * 100 > 1000) break;
-      const res = await github.get(
-        `/search/commits?q=author:${username}&per_page=100&page=${page}`
-      );
-      searchCalls.increment();
-      const data = res.data;
-      if (data.items?.length === 0) break;
-      data.items.forEach((item: any) => repos.add(item.repository.full_name));
-      page++;
-    } catch (err: any) {
-      if (err.response?.status === 422) break;
-      throw err;
-    }
-  }
-
-  // PRs search
-  page = 1;
-  while (true) {
-    try {
-      if (page * 100 > 1000) break;
-      const res = await github.get(
-        `/search/issues?q=author:${username}+type:pr&per_page=100&page=${page}`
-      );
-      searchCalls.increment();
-      const data = res.data;
-      if (data.items?.length === 0) break;
-      data.items.forEach((item: any) => {
-        const repo = item.repository_url.replace(
-          "https://api.github.com/repos/",
-          ""
-        );
-        repos.add(repo);
-      });
-      page++;
-    } catch (err: any) {
-      if (err.response?.status === 422) break;
-      throw err;
-    }
-  }
-
-  return repos;
-}
-
-// ── Analyze repos ────────────────────────────────────────────────────────────
-async function analyzeRepos(
-  github: AxiosInstance,
-  username: string,
-  repos: string[],
-  apiCalls: ReturnType<typeof getApiCallsCounter>
-) {
-  const repoAnalyses: Record<string, RepoAnalysis> = {};
-  let totalCommits = 0;
-  let totalPRs = 0;
-
-  for (const repo of repos) {
-    console.log(`Analyzing: ${repo}`);
-    const analysis: RepoAnalysis = {
-      languages: {},
-      dependencies: new Set(),
-      fileTypes: new Set(),
-      commitCount: 0,
-      prCount: 0,
-      evidence: [],
-    };
-
-    // Languages
-    try {
-      const res = await github.get(`/repos/${repo}/languages`);
-      analysis.languages = res.data;
-    } catch {}
-
-    // Commits
-    try {
-      let page = 1;
-      while (true) {
-        const res = await github.get(
-          `/repos/${repo}/commits?author=${username}&per_page=100&page=${page}`
-        );
-        apiCalls.increment();
-        const data = res.data;
-        if (data.length === 0) break;
-        analysis.commitCount += data.length;
-
-        for (const commit of data) {
-          try {
-            const detail = await github.get(
-              `/repos/${repo}/commits/${commit.sha}`
-            );
-            apiCalls.increment();
-            for (const file of detail.data.files || []) {
-              const ext = path.extname(file.filename).slice(1);
-              if (ext) analysis.fileTypes.add(ext);
-            }
-            analysis.evidence.push(commit.html_url);
-          } catch {}
-        }
-        page++;
-      }
-    } catch (err: any) {
-      if (err.response?.status === 409) {
-        console.log(`  ${repo} is empty — skipping commits`);
-      } else {
-        console.warn(`Commits fetch error: ${err.message}`);
-      }
-    }
-
-    // PRs
-    try {
-      let page = 1;
-      while (true) {
-        const res = await github.get(
-          `/repos/${repo}/pulls?creator=${username}&state=all&per_page=100&page=${page}`
-        );
-        apiCalls.increment();
-        const data = res.data;
-        if (data.length === 0) break;
-        analysis.prCount += data.length;
-        data.forEach((pr: any) => analysis.evidence.push(pr.html_url));
-        page++;
-      }
-    } catch {}
-
-    // Dependencies
-    for (const file of ["package.json", "requirements.txt", "pom.xml"]) {
-      try {
-        const res = await github.get(`/repos/${repo}/contents/${file}`);
-        apiCalls.increment();
-        const content = Buffer.from(res.data.content, "base64").toString(
-          "utf-8"
-        );
-        let deps: string[] = [];
-        if (file === "package.json") {
-          const json = JSON.parse(content);
-          deps = [
-            ...Object.keys(json.dependencies || {}),
-            ...Object.keys(json.devDependencies || {}),
-          ];
-        } else if (file === "requirements.txt") {
-          deps = content
-            .split("\n")
-            .map((l) => l.trim())
-            .filter((l) => l && !l.startsWith("#"));
-        } else if (file === "pom.xml") {
-          const matches =
-            content.match(/<artifactId>(.*?)<\/artifactId>/g) || [];
-          deps = matches.map((m) =>
-            m.replace(/<artifactId>|<\/artifactId>/g, "")
-          );
-        }
-        deps.forEach((d) => analysis.dependencies.add(d));
-      } catch {}
-    }
-
-    repoAnalyses[repo] = analysis;
-    totalCommits += analysis.commitCount;
-    totalPRs += analysis.prCount;
-  }
-
-  return { repoAnalyses, totalCommits, totalPRs };
-}
-
-// ── Aggregate analysis data ─────────────────────────────────────────────────
-function aggregateAnalysis(repoAnalyses: Record<string, RepoAnalysis>) {
-  const allLanguages = new Map<string, number>();
-  const allDependencies = new Set<string>();
-  const allFileTypes = new Set<string>();
-  const allEvidence: string[] = [];
+// ── Shortlist candidate skills ───────────────────────────────────────────────
+async function buildAndSaveShortlist(
+  analysis: CachedUserAnalysis,
+  allSkills: Skill[],
+  config: AppConfig
+): Promise<SkillCandidate[]> {
+  const candidates = buildSkillShortlist(
+    analysis,
+    allSkills,
+    config.shortlistSize
+  );
 
-  Object.values(repoAnalyses).forEach((a) => {
-    Object.entries(a.languages).forEach(([lang, bytes]) => {
-      allLanguages.set(lang, (allLanguages.get(lang) || 0) + bytes);
-    });
-    a.dependencies.forEach((dep) => allDependencies.add(dep));
-    a.fileTypes.forEach((ft) => allFileTypes.add(ft));
-    allEvidence.push(...a.evidence);
-  });
+  console.log(
+    `Shortlisted ${candidates.length} / ${allSkills.length} skills for the prompt:`
+  );
+  candidates.forEach((c) =>
+    console.log(
+      `  ${c.score.toFixed(3).padStart(7)}  ${c.name}` +
+        (c.matchedTerms.length ? ` (${c.matchedTerms.join(", ")})` : "")
+    )
+  );
 
-  const totalBytes =
-    Array.from(allLanguages.values()).reduce((s, b) => s + b, 0) || 1;
-  const langPercentages = Array.from(allLanguages.entries())
-    .map(([l, b]) => `${l}: ${((b / totalBytes) * 100).toFixed(2)}%`)
-    .join("\n");
-
-  const topDeps = Array.from(allDependencies).slice(0, 80);
-  const topFileTypes = Array.from(allFileTypes).slice(0, 20);
-
-  // Diverse evidence
-  const diverse: string[] = [];
-  const prLinks = allEvidence.filter((l) => l.includes("/pull/"));
-  const commitLinks = allEvidence.filter((l) => l.includes("/commit/"));
-  diverse.push(...prLinks.slice(0, 8));
-  diverse.push(...commitLinks.slice(0, 10));
-  if (diverse.length < 15) {
-    const rest = allEvidence.filter((l) => !diverse.includes(l));
-    diverse.push(...rest.slice(0, 15 - diverse.length));
-  }
-  diverse.sort(() => Math.random() - 0.5);
-  const evidenceSample = diverse.slice(0, 20);
-
-  return {
-    langPercentages,
-    topDeps,
-    topFileTypes,
-    evidenceSample,
+  const shortlist: SkillShortlist = {
+    timestamp: new Date(now()).toISOString(),
+    username: analysis.username,
+    totalSkills: allSkills.length,
+    candidates,
   };
-}
-
-// ── Random Diverse Evidence Links ─────────────────────────────────────────────────
-function getFreshEvidenceSample(
-  allLinks: string[],
-  maxLinks: number = 12
-): string {
-  if (allLinks.length <= maxLinks) {
-    return allLinks.join("\n");
-  }
-
-  // Group by repo
-  const byRepo = new Map<string, string[]>();
-
-  allLinks.forEach((link) => {
-    const repoMatch = link.match(
-      /github\.com\/([^/]+\/[^/]+)(?:\/commit|\/pull)/
-    );
-    const repo = repoMatch ? repoMatch[1] : "unknown";
-    if (!byRepo.has(repo)) byRepo.set(repo, []);
-    byRepo.get(repo)!.push(link);
-  });
-
-  const selected: string[] = [];
-
-  // Priority 1: PRs (richer context)
-  for (const links of byRepo.values()) {
-    const prLink = links.find((l) => l.includes("/pull/"));
-    if (prLink && selected.length < maxLinks) selected.push(prLink);
-  }
-
-  // Priority 2: Commits
-  for (const links of byRepo.values()) {
-    const commitLink = links.find(
-      (l) => l.includes("/commit/") && !selected.includes(l)
-    );
-    if (commitLink && selected.length < maxLinks) selected.push(commitLink);
-  }
-
-  // Fill remaining randomly from leftover
-  const remaining = allLinks.filter((l) => !selected.includes(l));
-  while (selected.length < maxLinks && remaining.length > 0) {
-    const idx = Math.floor(Math.random() * remaining.length);
-    selected.push(remaining.splice(idx, 1)[0]);
-  }
-
-  // Shuffle final selection
-  for (let i = selected.length - 1; i > 0; i--) {
-    const j = crypto.randomInt(i + 1);
-    [selected[i], selected[j]] = [selected[j], selected[i]];
+  const shortlistFile = getShortlistFile(analysis.username);
+  try {
+    await fs.writeFile(shortlistFile, JSON.stringify(shortlist, null, 2));
+    console.log(`Saved skill shortlist to ${shortlistFile}\n`);
+  } catch (err) {
+    console.error(`Failed to save skill shortlist: ${err}`);
   }
 
-  return selected.slice(0, maxLinks).join("\n");
+  return candidates;
 }
 
 // ── Build prompt ─────────────────────────────────────────────────────────────
 function buildPrompt(
   analysis: CachedUserAnalysis & { evidenceSample: string },
-  allSkills: Skill[]
+  candidates: SkillCandidate[],
+  // Applied to the user's data, not to the instructions or skill names
+  redact: (text: string) => string
 ) {
   const langPercentages = analysis.langPercentages.join("\n");
   const depsList = analysis.topDependencies.slice(0, 40).join(", ");
   const fileTypesList = analysis.topFileTypes.join(", ");
-  const skillNames = allSkills
-    .slice(0, 60) // reduce list size dramatically
-    .map((s) => s.name)
-    .join(", ");
-
-  return `
+  const signalsList = formatSignals(analysis.topSignals, 25) || "none";
+  const skillNames = candidates.map((s) => s.name).join(", ");
+  // Never more than the shortlist can supply
+  const most = Math.min(10, candidates.length);
+  const least = Math.min(5, most);
+  const count = least === most ? `${most}` : `${least}–${most}`;
+
+  const summary = `
   GitHub summary:
   Languages: ${langPercentages}
   Key deps: ${depsList}
   File types: ${fileTypesList}
+  Code signals from the user's diffs and messages (kind:value (lines changed)): ${signalsList}
   Commits: ${analysis.totalCommits} | PRs: ${analysis.totalPRs}
-  Fresh sample links (use 1–2 in reasons when relevant): ${analysis.evidenceSample}
+  Fresh sample links (use 1–2 in reasons when relevant): ${analysis.evidenceSample}`;
+
+  return `${redact(summary)}
   
-  Recommend **exactly 5–10** skills **ONLY** from this list — use as many strong matches as possible:
+  Recommend **exactly ${count}** skills **ONLY** from this list — use as many strong matches as possible:
   ${skillNames}
   
   Rules (must obey):
     - name: EXACT match (case-sensitive) from the list — NO other names.
     - score: 0–100 based on how strongly evidence matches.
     - reason: 1–2 sentences with **specific evidence**:
-        - ALWAYS include 1–2 deps/file types (e.g. tailwindcss, .tsx/.ts files)
+        - ALWAYS include 1–2 deps/file types/code signals (e.g. tailwindcss, .tsx/.ts files, config:docker)
         - ALWAYS include 1 relevant link from sample links when it supports the reason
         - Explain why this leads to the score (e.g. "multiple packages + high usage → 92")
   
-  Output ONLY JSON array — nothing else.`;
-}
-
-// ── Call LLM ─────────────────────────────────────────────────────────────────
-async function callLLM(prompt: string): Promise<string> {
-  const provider = LLM_PROVIDER;
-  // ── Unified OpenAI-compatible providers ──────────────────────────────────
-  if (provider === "huggingface_router" || provider === "ollama") {
-    let baseURL: string;
-    let apiKey: string;
-    let model: string;
-
-    if (provider === "huggingface_router") {
-      baseURL = "https://router.huggingface.co/v1";
-      apiKey = HUGGINGFACE_TOKEN!;
-      model = process.env.HF_MODEL || "openai/gpt-oss-120b:groq";
-      console.log(`Querying Hugging Face router: ${model}`);
-    } else {
-      // ollama (local)
-      baseURL = "http://localhost:11434/v1/";
-      apiKey = "ollama"; // dummy — ignored locally
-      model = process.env.OLLAMA_MODEL || "gpt-oss:120b";
-      console.log(`Querying local Ollama: ${model} @ ${baseURL}`);
-    }
-
-    const client = new OpenAI({apiKey, baseURL});
-
-    const completion = await client.chat.completions.create({
-      model,
-      messages: [{ role: "user", content: prompt }],
-      temperature: 0.1,
-      max_tokens: 1600,
-      stream: false,
-    });
-
-    return completion.choices[0]?.message?.content || "";
-  }
-
-  // ── Ollama Cloud ───────────────────────────────────────────────
-  else if (provider === "ollama_cloud") {
-    const apiKey = OLLAMA_API_KEY;
-    const model = process.env.OLLAMA_MODEL || "gpt-oss:120b";
-
-    console.log(`Querying Ollama Cloud: ${model}`);
-
-    const ollama = new Ollama({
-      host: "https://api.ollama.com",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
-    });
-
-    const response = await ollama.chat({
-      model,
-      messages: [{ role: "user", content: prompt }],
-      stream: false,
-    });
-
-    return response.message.content || "";
-  }
-
-  throw new Error(`Unsupported LLM provider: ${provider}`);
+  Output ONLY a JSON object {"recommendations": [{"name", "score", "reason"}]} — nothing else.`;
 }
 
-// ── Parse & map recommendations ──────────────────────────────────────────────
-function parseAndMapRecommendations(
-  raw: string,
-  allSkills: Skill[]
-): Recommendation[] {
-  let cleaned = raw.trim();
-
-  // Step 1: Remove common markdown/code fences
-  cleaned = cleaned.replace(/^```json?\s*/i, "").replace(/\s*```$/i, "");
-
-  // Step 2: Extract the array part only (between first [ and last ])
-  const firstBracket = cleaned.indexOf("[");
-  const lastBracket = cleaned.lastIndexOf("]");
-  if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-    cleaned = cleaned.substring(firstBracket, lastBracket + 1);
-  }
-
-  // Step 3: Remove trailing commas before closing ]
-  cleaned = cleaned.replace(/,\s*]/g, "]");
+// ── One LLM sample: prompt, validated answer, mapped recommendations ────────
+async function sampleLlmRecommendations(
+  analysis: CachedUserAnalysis,
+  shortlist: SkillCandidate[],
+  allSkills: Skill[],
+  config: AppConfig,
+  exchanges: LlmExchange[],
+  minScore = MIN_LLM_SCORE
+): Promise<Recommendation[]> {
+  // 6. Build prompt
+  const evidenceSample = getFreshEvidenceSample(
+    analysis.allEvidenceLinks,
+    config.evidenceSampleSize
+  );
+  const redactor = createPromptRedactor(analysis, config.promptRedaction);
+  const prompt = buildPrompt(
+    { ...analysis, evidenceSample },
+    shortlist,
+    redactor.redact
+  );
 
-  // Step 4: If array is unclosed, find the last complete object and force-close
-  if (!cleaned.endsWith("]")) {
-    // Find last complete object (last '}' before potential garbage)
-    const lastCloseBrace = cleaned.lastIndexOf("}");
-    if (lastCloseBrace !== -1) {
-      // Cut after last complete object and close array
-      cleaned = cleaned.substring(0, lastCloseBrace + 1) + "]";
-    } else {
-      // Desperate recovery: just close it
-      cleaned += "]";
-    }
+  // 7. Call LLM
+  if (redactor.names > 0) {
+    console.log(
+      `Prompt: ${redactor.names} private repo / org name(s) replaced (${config.promptRedaction})`
+    );
   }
+  if (config.logPrompts) console.log(`Prompt: ${prompt}`);
+  console.log(
+    `Prompt length: ${prompt.length} chars (~${Math.round(
+      prompt.length / 4
+    )} tokens)`
+  );
+  const exchange: LlmExchange = {
+    model: resolveLlmModel(config),
+    prompt,
+    responses: [],
+  };
+  exchanges.push(exchange);
+  const llmRecommendations = await requestLlmRecommendations(
+    prompt,
+    shortlist,
+    config,
+    exchange
+  );
+  // Reasons cite the aliases; map them back to the real names
+  return mapRecommendations(
+    llmRecommendations.map((r) => ({
+      ...r,
+      reason: redactor.restore(r.reason),
+    })),
+    allSkills,
+    analysis,
+    minScore
+  );
+}
 
-  // Step 5: Remove any trailing garbage after final ]
-  const finalClose = cleaned.lastIndexOf("]");
-  if (finalClose !== -1) {
-    cleaned = cleaned.substring(0, finalClose + 1);
+// ── Validated LLM answer (repair retries) ───────────────────────────────────
+async function requestLlmRecommendations(
+  prompt: string,
+  candidates: SkillCandidate[],
+  config: AppConfig,
+  // Collects every raw answer for the run history
+  exchange: LlmExchange
+): Promise<LlmRecommendation[]> {
+  const skillNames = candidates.map((c) => c.name);
+  const schema = recommendationsJsonSchema(skillNames);
+  const messages: LlmMessage[] = [{ role: "user", content: prompt }];
+  const attempts = config.llmRepairAttempts + 1;
+
+  let result: LlmOutputResult = { recommendations: [], errors: [] };
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const raw = await callLLM(messages, config, schema, skillNames);
+    exchange.responses.push(raw);
+    result = parseLlmRecommendations(raw, skillNames);
+    if (result.errors.length === 0) return result.recommendations;
+
+    console.warn(
+      `LLM answer failed validation (attempt ${attempt}/${attempts}): ${result.errors.length} error(s), first: ${result.errors[0]}`
+    );
+    messages.push(
+      { role: "assistant", content: raw },
+      { role: "user", content: buildRepairPrompt(result.errors) }
+    );
   }
 
-  // Debug: show what we ended up with
-  console.log("\n=== FINAL CLEANED JSON FOR PARSING ===");
-  console.log(cleaned);
-  console.log("=======================================\n");
-
-  try {
-    const parsed = JSON.parse(cleaned);
+  console.warn(
+    `Keeping the ${result.recommendations.length} valid recommendation(s) from the last answer`
+  );
+  return result.recommendations;
+}
 
-    if (!Array.isArray(parsed)) {
-      throw new Error("Parsed result is not an array");
-    }
+// ── Map recommendations to Topcoder skills ──────────────────────────────────
+const MIN_LLM_SCORE = 40;
 
-    const validRecs = parsed
-      .filter(
-        (item: any) =>
-          item &&
-          (typeof item.name === "string" || typeof item.skill === "string") &&
-          typeof item.score === "number" &&
-          typeof item.reason === "string"
-      )
-      .map((item: any) => {
-        const cleanName = (item.name ?? item.skill)?.trim();
-        const skill = allSkills.find(
-          (s) => s.name.trim().toLowerCase() === cleanName?.toLowerCase()
+function mapRecommendations(
+  items: LlmRecommendation[],
+  allSkills: Skill[],
+  analysis: CachedUserAnalysis,
+  minScore: number
+): Recommendation[] {
+  const mappedRecs = items
+    .map((item) => {
+      const skill = allSkills.find(
+        (s) => s.name.trim().toLowerCase() === item.name.toLowerCase()
+      );
+      if (!skill) {
+        console.warn(
+          `Rejected hallucinated skill: "${item.name}" (not in Topcoder list)`
         );
-
-        if (!skill && cleanName) {
-          console.warn(
-            `Rejected hallucinated skill: "${cleanName}" (not in Topcoder list)`
-          );
-        }
-
-        return skill
-          ? {
-              id: skill.id,
-              name: skill.name,
-              score: Math.max(0, Math.min(100, Math.round(item.score))),
-              info: item.reason?.trim() || "No reason provided",
-            }
-          : null;
-      })
-      .filter((r): r is Recommendation => r !== null && r.score >= 40);
-
-    console.log(
-      `Parsed ${validRecs.length} valid / ${parsed.length} total recommendations (filtered non-matches)`
-    );
-
-    return validRecs;
-  } catch (err: any) {
-    console.error(
-      "JSON parsing failed even after aggressive cleaning:",
-      err.message
-    );
-    console.error("Final cleaned string:", cleaned);
-    return [];
-  }
+      }
+      return skill
+        ? {
+            id: skill.id,
+            name: skill.name,
+            score: item.score,
+            info: item.reason,
+          }
+        : null;
+    })
+    .filter((r): r is Recommendation => r !== null);
+
+  // Check cited links / packages against the analysis before the cut-off
+  const validRecs = verifyRecommendations(mappedRecs, analysis).filter(
+    (r) => r.score >= minScore
+  );
+  console.log(
+    `Mapped ${validRecs.length} valid / ${items.length} total recommendations (score ≥ ${minScore})`
+  );
+  return validRecs;
 }
 
 // ── Display results ──────────────────────────────────────────────────────────
@@ -817,76 +1496,100 @@ function displayResults(
     console.log(`Skill ID: ${r.id}`);
     console.log(`Skill Name: ${r.name}`);
     console.log(`Score: ${r.score}`);
+    console.log(`Source: ${r.source ?? "llm"}`);
     console.log(`Why: ${r.info}`);
+    if (r.verification?.unverified.length) {
+      console.log(`Unverified: ${r.verification.unverified.join(", ")}`);
+    }
+    if (r.consensus) console.log(`Consensus: ${formatConsensus(r.consensus)}`);
     console.log("---");
   }
 
   console.log("\nRun Summary:");
   console.log(`Repos discovered: ${analysis.reposCount}`);
   console.log(`Repos analyzed: ${analysis.analyzedRepos}`);
+  console.log(
+    `Visibility: ${
+      analysis.visibility.profile === "public"
+        ? "public repositories only"
+        : `public and private repositories (${analysis.visibility.privateRepos.length} private)`
+    }`
+  );
   console.log(`Commits: ${analysis.totalCommits} | PRs: ${analysis.totalPRs}`);
   console.log(`Total API calls: ${totalApiCalls}`);
   const elapsed = (Date.now() - startTime) / 1000;
   console.log(`Elapsed: ${elapsed.toFixed(2)} seconds`);
+  return elapsed;
+}
 
-  exportResultsToFile(
-    analysis.username,
+// ── Save recommendations (for `report`) ──────────────────────────────────────
+async function saveRecommendations(
+  username: string,
+  recommendations: Recommendation[],
+  totalApiCalls: number,
+  startTime: number
+) {
+  const saved: SavedRecommendations = {
+    timestamp: new Date(now()).toISOString(),
+    username,
     recommendations,
-    analysis,
     totalApiCalls,
-    elapsed
-  );
+    elapsedSeconds: (Date.now() - startTime) / 1000,
+  };
+  try {
+    await fs.writeFile(
+      getRecommendationsFile(username),
+      JSON.stringify(saved, null, 2)
+    );
+  } catch (err) {
+    console.error(`Failed to save recommendations: ${err}`);
+  }
 }
 
 // ── Export the results ──────────────────────────────────────────────────────────
+// The model(s) that answered: CONSENSUS_MODELS only applies to consensus runs
+const describeLlmModel = (config: AppConfig) =>
+  (config.consensusRuns > 1 && config.consensusModels.join(", ")) ||
+  resolveLlmModel(config);
+
 async function exportResultsToFile(
   username: string,
   recommendations: Recommendation[],
   analysis: CachedUserAnalysis,
   totalApiCalls: number,
-  elapsedSeconds: number
+  elapsedSeconds: number,
+  config: AppConfig,
+  outputPath?: string
 ) {
-  const dateStr = new Date().toISOString().split("T")[0];
-  const outputFile = `skills-report-${username.toLowerCase()}-${dateStr}.txt`;
-
-  const content = `
-  GitHub Skills Recommendation Report
-  Generated: ${new Date().toISOString()}
-  User: @${username}
-  
-  Repos discovered: ${analysis.reposCount}
-  Repos analyzed: ${analysis.analyzedRepos}
-  Commits: ${analysis.totalCommits} | PRs: ${analysis.totalPRs}
-  Total API calls: ${totalApiCalls}
-  Elapsed time: ${elapsedSeconds.toFixed(2)} seconds
-  
-  Recommended Verified Skills:
-  ${recommendations
-    .sort((a, b) => b.score - a.score)
-    .map(
-      (r) =>
-        `Skill ID: ${r.id}
-  Skill Name: ${r.name}
-  Score: ${r.score}
-  Why: ${r.info}
-  ---`
-    )
-    .join("\n\n")}
-  
-  Run Summary:
-  Repos discovered: ${analysis.reposCount}
-  Repos analyzed: ${analysis.analyzedRepos}
-  Commits: ${analysis.totalCommits} | PRs: ${analysis.totalPRs}
-  Total API calls: ${totalApiCalls}
-  Elapsed: ${elapsedSeconds.toFixed(2)} seconds
-  `;
+  const outputFile = getReportFile(username, config.reportFormat, outputPath);
+  const report = buildReportData(username, recommendations, analysis, {
+    totalApiCalls,
+    elapsedSeconds,
+    llmProvider: config.rulesOnly ? undefined : config.llmProvider,
+    llmModel: config.rulesOnly
+      ? undefined
+      : describeLlmModel(config),
+    consensusRuns:
+      !config.rulesOnly && config.consensusRuns > 1
+        ? config.consensusRuns
+        : undefined,
+    collector: config.collector,
+    rulesOnly: config.rulesOnly,
+  });
+  const { data, analysis: reportAnalysis } = config.redactPrivate
+    ? redactPrivateRepos(report, analysis)
+    : { data: report, analysis };
 
   try {
-    await fs.writeFile(outputFile, content.trim());
+    await fs.writeFile(
+      outputFile,
+      renderReport(config.reportFormat, data, reportAnalysis)
+    );
     console.log(`\nResults exported to: ${outputFile}`);
   } catch (err) {
     console.error(`Failed to export results to file: ${err}`);
   }
+  return outputFile;
 }
 
 // ── Run ──────────────────────────────────────────────────────────────────────
@@ -0,0 +1,107 @@
+import * as fs from "fs/promises";
+import { now } from "./fixtures";
+import { BatchState } from "./types";
+
+// ── Read logins (CSV first column or one per line) ──────────────────────────
+const HEADER_NAMES = new Set(["login", "username", "github", "handle", "user"]);
+
+export async function readUsersFile(file: string): Promise<string[]> {
+  const raw = await fs.readFile(file, "utf-8");
+  const users: string[] = [];
+  const seen = new Set<string>();
+
+  raw.split(/\r?\n/).forEach((line, i) => {
+    const cell = line
+      .split(",")[0]
+      .trim()
+      .replace(/^["']|["']$/g, "")
+      .replace(/^@/, "");
+    if (!cell || cell.startsWith("#")) return;
+    if (i === 0 && HEADER_NAMES.has(cell.toLowerCase())) return;
+    if (!/^[a-zA-Z0-9-]+$/.test(cell)) {
+      console.warn(`Skipping invalid GitHub login on line ${i + 1}: ${cell}`);
+      return;
+    }
+    if (seen.has(cell.toLowerCase())) return;
+    seen.add(cell.toLowerCase());
+    users.push(cell);
+  });
+
+  return users;
+}
+
+// ── Batch progress (resumable) ───────────────────────────────────────────────
+export function newBatchState(source: string): BatchState {
+  const startedAt = new Date(now()).toISOString();
+  return {
+    source,
+    startedAt,
+    updatedAt: startedAt,
+    completed: {},
+    failed: {},
+  };
+}
+
+export async function loadBatchState(
+  stateFile: string,
+  source: string
+): Promise<BatchState> {
+  try {
+    const state = JSON.parse(await fs.readFile(stateFile, "utf-8"));
+    console.log(`Resuming batch started ${state.startedAt}`);
+    return state as BatchState;
+  } catch {
+    return newBatchState(source);
+  }
+}
+
+export async function saveBatchState(stateFile: string, state: BatchState) {
+  state.updatedAt = new Date(now()).toISOString();
+  await fs.writeFile(stateFile, JSON.stringify(state, null, 2));
+}
+
+// ── Combined summary ─────────────────────────────────────────────────────────
+export async function exportBatchSummary(
+  users: string[],
+  state: BatchState,
+  outputPath?: string
+): Promise<string> {
+  const generatedAt = new Date(now()).toISOString();
+  const dateStr = generatedAt.split("T")[0];
+  const outputFile = outputPath || `skills-batch-summary-${dateStr}.txt`;
+
+  const sections = users.map((login) => {
+    const key = login.toLowerCase();
+    const done = state.completed[key];
+    if (done) {
+      const skills = done.topSkills.length
+        ? done.topSkills.map((s) => `${s.name} (${s.score})`).join(", ")
+        : "none";
+      return `@${done.username}
+  Repos analyzed: ${done.analyzedRepos}
+  Commits: ${done.totalCommits} | PRs: ${done.totalPRs}
+  Top skills: ${skills}
+  Report: ${done.reportFile}`;
+    }
+    if (state.failed[key]) {
+      return `@${login}
+  FAILED: ${state.failed[key]}`;
+    }
+    return `@${login}
+  PENDING`;
+  });
+
+  const completed = users.filter((u) => state.completed[u.toLowerCase()]);
+  const content = `GitHub Skills Batch Summary
+Generated: ${generatedAt}
+Source: ${state.source}
+Users: ${users.length} | Completed: ${completed.length} | Failed: ${
+    Object.keys(state.failed).length
+  }
+
+${sections.join("\n\n")}
+`;
+
+  await fs.writeFile(outputFile, content);
+  return outputFile;
+}
@@ -0,0 +1,84 @@
+import * as fs from "fs/promises";
+import { CachedSkills, CachedUserAnalysis, Skill } from "./types";
+
+// ── Schema versions ──────────────────────────────────────────────────────────
+// v1: flattened aggregate only (no schemaVersion field)
+// v2: + per-repo incremental state (last commit SHA / PR created_at)
+// v3: full per-repo breakdown (`repos`) replaces the v2 incremental state
+// v4: dependencies are ecosystem-tagged ("npm:react") from all manifests
+// v5: + weighted code signals from commit diffs and messages (`signals`)
+// v6: + per-repo contribution facts; aggregates weighted by contribution
+// v7: + scope profile and private repos covered (`visibility`)
+// v8: per-repo PR marker is the last PR updated_at (was created_at)
+export const ANALYSIS_SCHEMA_VERSION = 8;
+// v1: bare Skill[] array, v2: { schemaVersion, timestamp, skills }
+export const SKILLS_SCHEMA_VERSION = 2;
+
+// ── Freshness ────────────────────────────────────────────────────────────────
+/** `ttlHours <= 0` means the cache never expires. */
+export function isFresh(timestamp: string, ttlHours: number) {
+  if (ttlHours <= 0) return true;
+  const age = Date.now() - new Date(timestamp).getTime();
+  return age >= 0 && age < ttlHours * 3600 * 1000;
+}
+
+export function formatAge(timestamp: string) {
+  const hours = (Date.now() - new Date(timestamp).getTime()) / 3600000;
+  return hours < 48 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)}d`;
+}
+
+// ── Analysis cache ───────────────────────────────────────────────────────────
+/**
+ * Reads a user analysis cache. Returns null when the file is missing,
+ * unreadable or written by an incompatible schema (which would be unsafe to
+ * merge incremental results into).
+ */
+export async function readAnalysisCache(
+  file: string
+): Promise<CachedUserAnalysis | null> {
+  let data: any;
+  try {
+    data = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch {
+    return null;
+  }
+
+  const version = data.schemaVersion ?? 1;
+  if (version !== ANALYSIS_SCHEMA_VERSION) {
+    console.log(
+      `Ignoring analysis cache ${file}: schema v${version}, expected v${ANALYSIS_SCHEMA_VERSION}`
+    );
+    return null;
+  }
+  return data as CachedUserAnalysis;
+}
+
+// ── Skills cache ─────────────────────────────────────────────────────────────
+export async function readSkillsCache(
+  file: string
+): Promise<CachedSkills | null> {
+  let data: any;
+  try {
+    data = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch {
+    return null;
+  }
+
+  // v1 → v2: wrap the bare array, use the file mtime as fetch time
+  if (Array.isArray(data)) {
+    const stat = await fs.stat(file);
+    return {
+      schemaVersion: SKILLS_SCHEMA_VERSION,
+      timestamp: stat.mtime.toISOString(),
+      skills: data as Skill[],
+    };
+  }
+
+  if (data.schemaVersion !== SKILLS_SCHEMA_VERSION) {
+    console.log(
+      `Ignoring skills cache ${file}: schema v${data.schemaVersion}, expected v${SKILLS_SCHEMA_VERSION}`
+    );
+    return null;
+  }
+  return data as CachedSkills;
+}
@@ -0,0 +1,320 @@
+import { parseArgs } from "util";
+import { LLM_PROVIDER_NAMES } from "./llm";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+export interface CliOptions {
+  user?: string;
+  scopeProfile?: string;
+  maxRepos?: number;
+  include?: string;
+  exclude?: string;
+  collector?: string;
+  provider?: string;
+  model?: string;
+  consensus?: number;
+  consensusModels?: string;
+  logPrompt: boolean;
+  noCache: boolean;
+  incremental: boolean;
+  rulesOnly: boolean;
+  review: boolean;
+  output?: string;
+  format?: string;
+  redactPrivate: boolean;
+  handle?: string;
+  skills?: string[];
+  minScore?: number;
+  from?: string;
+  to?: string;
+  // Fixture directory (see fixtures.ts)
+  record?: string;
+  replay?: string;
+  yes: boolean;
+  dryRun: boolean;
+  help: boolean;
+}
+export interface CliCommand {
+  command: string;
+  subcommand?: string;
+  argument?: string;
+  options: CliOptions;
+}
+
+// ── Commands ─────────────────────────────────────────────────────────────────
+const COMMANDS: Record<
+  string,
+  {
+    usage: string;
+    description: string;
+    subcommands?: string[];
+    // Used when no subcommand is given
+    defaultSubcommand?: string;
+    argument?: string;
+  }
+> = {
+  auth: {
+    usage: "auth [login|status|logout] [--scope-profile <name>]",
+    description:
+      "Sign in to GitHub (device flow) and store the token encrypted; show or revoke it",
+    subcommands: ["login", "status", "logout"],
+    defaultSubcommand: "login",
+  },
+  analyze: {
+    usage:
+      "analyze [--user <login>] [--scope-profile <name>] [--max-repos <n>] [--include <patterns>] [--exclude <patterns>] [--collector <name>] [--no-cache] [--incremental] [--record <dir> | --replay <dir>]",
+    description: "Collect GitHub activity and store the analysis cache",
+  },
+  recommend: {
+    usage:
+      "recommend [--user <login>] [--scope-profile <name>] [--max-repos <n>] [--include <patterns>] [--exclude <patterns>] [--collector <name>] [--provider <name>] [--model <name>] [--consensus <n>] [--consensus-models <list>] [--log-prompt] [--no-cache] [--incremental] [--rules-only] [--review] [--output <file>] [--format <name>] [--redact-private] [--record <dir> | --replay <dir>]",
+    description:
+      "Analyze activity, query the LLM and export the report (default)",
+  },
+  rules: {
+    usage:
+      "rules --user <login> [--output <file>] [--format <name>] [--redact-private]",
+    description:
+      "Offline: score the cached analysis with the skill rules only (no GitHub, Topcoder or LLM calls)",
+  },
+  batch: {
+    usage:
+      "batch <users-file> [--scope-profile <name>] [--max-repos <n>] [--include <patterns>] [--exclude <patterns>] [--collector <name>] [--provider <name>] [--model <name>] [--consensus <n>] [--consensus-models <list>] [--log-prompt] [--no-cache] [--incremental] [--rules-only] [--review] [--output <file>] [--format <name>] [--redact-private] [--record <dir> | --replay <dir>]",
+    description:
+      "Recommend for every login in a CSV/newline file (resumable), plus a combined summary",
+    argument: "users-file",
+  },
+  review: {
+    usage:
+      "review [--user <login>] [--output <file>] [--format <name>] [--redact-private]",
+    description:
+      "Step through the last saved recommendations, then save and re-export them",
+  },
+  report: {
+    usage:
+      "report [--user <login>] [--output <file>] [--format <name>] [--redact-private]",
+    description: "Re-export the report from the last saved recommendations",
+  },
+  import: {
+    usage:
+      "import [--user <login>] [--handle <topcoder-handle>] [--skills <id|name,...>] [--min-score <n>] [--yes] [--dry-run]",
+    description:
+      "Add the last saved recommendations (with evidence links) to a Topcoder member profile",
+  },
+  history: {
+    usage: "history [--user <login>]",
+    description:
+      "List the recorded runs (recommend, rules, review), oldest first",
+  },
+  diff: {
+    usage:
+      "diff [--user <login>] [--from <run|date>] [--to <run|date>] [--format text|json]",
+    description:
+      "Skills gained, lost and re-scored between two recorded runs (default: the last two)",
+  },
+  cache: {
+    usage: "cache clear|show [--user <login>]",
+    description: "Show or delete cached analyses (all users without --user)",
+    subcommands: ["clear", "show"],
+  },
+  skills: {
+    usage: "skills sync",
+    description: "Re-download the Topcoder skills list into the cache",
+    subcommands: ["sync"],
+  },
+};
+
+const OPTIONS_HELP = `Options:
+  -u, --user <login>     GitHub login to analyze, any public user (default: authenticated user)
+      --scope-profile <name>
+                         GitHub access: public (no scopes, public repos only) |
+                         fine-grained (read-only fine-grained token in GITHUB_ACCESS_TOKEN) |
+                         private (user, repo) (env: GITHUB_SCOPE_PROFILE, default: private)
+      --max-repos <n>    Max repositories to analyze (env: MAX_REPOS_TO_ANALYZE)
+      --include <patterns>
+                         Only analyze matching repos, comma-separated owner/name
+                         globs; a bare name is an owner (env: REPO_INCLUDE)
+      --exclude <patterns>
+                         Never analyze matching repos (env: REPO_EXCLUDE)
+      --collector <name> GitHub data collector: rest | graphql (env: GITHUB_COLLECTOR)
+      --provider <name>  LLM provider (env: LLM_PROVIDER, default: huggingface_router):
+                         ${LLM_PROVIDER_NAMES.join(" | ")}
+      --model <name>     LLM model (env: the provider's model variable, e.g. HF_MODEL)
+      --consensus <n>    Query the LLM n times with different evidence samples and
+                         report mean score, variance and agreement (env: CONSENSUS_RUNS)
+      --consensus-models <list>
+                         Models rotated across consensus runs, comma-separated
+                         (env: CONSENSUS_MODELS)
+      --log-prompt       Print each LLM prompt as sent, private names redacted
+                         (env: LOG_PROMPTS=true)
+      --no-cache         Ignore the cached analysis (and batch progress) and re-analyze from GitHub
+      --incremental      Refresh a stale cache by re-fetching only repos with new activity
+                         (env: INCREMENTAL_ANALYSIS=true)
+      --rules-only       Use the rule-based skill mapping only, skip the LLM
+      --review           Review recommendations interactively before export
+  -o, --output <file>    Report file path (default: skills-report-<user>-<date>.txt;
+                         batch: skills-batch-summary-<date>.txt)
+      --format <name>    Report format: text | json | markdown | html
+                         (env: REPORT_FORMAT, default: from --output extension, else text)
+      --redact-private   Replace private repo names and drop their links in the report
+                         (env: REDACT_PRIVATE_REPOS=true)
+      --handle <handle>  Topcoder member to import into (env: TOPCODER_HANDLE)
+      --skills <list>    Import only these skills (comma-separated IDs or names)
+      --min-score <n>    Import only recommendations scoring at least n
+      --from <run|date>  diff: older run — latest | previous | run id (prefix) | date
+                         (last run at or before it), default: previous
+      --to <run|date>    diff: newer run, same forms, default: latest
+      --record <dir>     Save all GitHub, Topcoder and LLM responses as fixtures
+                         (env: FIXTURE_MODE=record, FIXTURE_DIR)
+      --replay <dir>     Answer from recorded fixtures, no network
+                         (env: FIXTURE_MODE=replay, FIXTURE_DIR)
+  -y, --yes              Import without asking for confirmation
+      --dry-run          Show what would be imported, change nothing
+  -h, --help             Show help`;
+
+export function getHelpText(command?: string): string {
+  const entry = command ? COMMANDS[command] : undefined;
+  if (entry) {
+    return `Usage: npm start -- ${entry.usage}
+
+${entry.description}
+
+${OPTIONS_HELP}`;
+  }
+
+  const commands = Object.entries(COMMANDS)
+    .map(([name, c]) => `  ${name.padEnd(10)} ${c.description}`)
+    .join("\n");
+  return `Usage: npm start -- <command> [options]
+
+Commands:
+${commands}
+
+${OPTIONS_HELP}`;
+}
+
+// ── Parse argv ───────────────────────────────────────────────────────────────
+export function parseCli(argv: string[] = process.argv.slice(2)): CliCommand {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      user: { type: "string", short: "u" },
+      "scope-profile": { type: "string" },
+      "max-repos": { type: "string" },
+      include: { type: "string" },
+      exclude: { type: "string" },
+      collector: { type: "string" },
+      provider: { type: "string" },
+      model: { type: "string" },
+      consensus: { type: "string" },
+      "consensus-models": { type: "string" },
+      "log-prompt": { type: "boolean" },
+      "no-cache": { type: "boolean" },
+      incremental: { type: "boolean" },
+      "rules-only": { type: "boolean" },
+      review: { type: "boolean" },
+      output: { type: "string", short: "o" },
+      format: { type: "string" },
+      "redact-private": { type: "boolean" },
+      handle: { type: "string" },
+      skills: { type: "string" },
+      "min-score": { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      record: { type: "string" },
+      replay: { type: "string" },
+      yes: { type: "boolean", short: "y" },
+      "dry-run": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const options: CliOptions = {
+    user: values.user?.replace(/^@/, ""),
+    scopeProfile: values["scope-profile"],
+    include: values.include,
+    exclude: values.exclude,
+    collector: values.collector,
+    provider: values.provider,
+    model: values.model,
+    consensusModels: values["consensus-models"],
+    logPrompt: values["log-prompt"] ?? false,
+    noCache: values["no-cache"] ?? false,
+    incremental: values.incremental ?? false,
+    rulesOnly: values["rules-only"] ?? false,
+    review: values.review ?? false,
+    output: values.output,
+    format: values.format,
+    redactPrivate: values["redact-private"] ?? false,
+    handle: values.handle,
+    skills: values.skills
+      ?.split(",")
+      .map((s) => s.trim())
+      .filter(Boolean),
+    from: values.from,
+    to: values.to,
+    record: values.record,
+    replay: values.replay,
+    yes: values.yes ?? false,
+    dryRun: values["dry-run"] ?? false,
+    help: values.help ?? false,
+  };
+
+  // `help [command]` and `[command] --help` both print help
+  if (options.help || positionals[0] === "help") {
+    const topic = positionals[0] === "help" ? positionals[1] : positionals[0];
+    return { command: "help", subcommand: topic, options };
+  }
+
+  const [command = "recommend", subcommand, ...extra] = positionals;
+  const entry = COMMANDS[command];
+  if (!entry) throw new Error(`Unknown command: ${command}`);
+
+  if (options.record && options.replay) {
+    throw new Error("--record and --replay can't be combined");
+  }
+  if (values["max-repos"] !== undefined) {
+    const maxRepos = parseInt(values["max-repos"], 10);
+    if (!Number.isInteger(maxRepos) || maxRepos < 1) {
+      throw new Error("--max-repos must be a positive integer");
+    }
+    options.maxRepos = maxRepos;
+  }
+  if (values.consensus !== undefined) {
+    const consensus = parseInt(values.consensus, 10);
+    if (!Number.isInteger(consensus) || consensus < 1 || consensus > 20) {
+      throw new Error("--consensus must be an integer between 1 and 20");
+    }
+    options.consensus = consensus;
+  }
+  if (values["min-score"] !== undefined) {
+    const minScore = parseInt(values["min-score"], 10);
+    if (!Number.isInteger(minScore) || minScore < 0 || minScore > 100) {
+      throw new Error("--min-score must be an integer between 0 and 100");
+    }
+    options.minScore = minScore;
+  }
+
+  if (entry.argument) {
+    if (!subcommand) throw new Error(`"${command}" expects <${entry.argument}>`);
+    if (extra.length > 0) {
+      throw new Error(`Unexpected argument: ${extra.join(" ")}`);
+    }
+    return { command, argument: subcommand, options };
+  }
+
+  const chosen = subcommand ?? entry.defaultSubcommand;
+  if (entry.subcommands && !entry.subcommands.includes(chosen)) {
+    throw new Error(
+      `"${command}" expects one of: ${entry.subcommands.join(", ")}`
+    );
+  }
+  const unexpected = (
+    entry.subcommands ? extra : [subcommand, ...extra]
+  ).filter((p) => p !== undefined);
+  if (unexpected.length > 0) {
+    throw new Error(`Unexpected argument: ${unexpected.join(" ")}`);
+  }
+
+  return { command, subcommand: chosen, options };
+}
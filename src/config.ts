@@ -0,0 +1,301 @@
+import crypto from "crypto";
+import * as dotenv from "dotenv";
+import * as path from "path";
+import { CliOptions } from "./cli";
+import { REPORT_FORMATS, ReportFormat, formatFromPath } from "./report";
+import { PrivateDataPolicy, PromptRedaction, ScopeProfile } from "./types";
+
+dotenv.config();
+
+// ── Paths ────────────────────────────────────────────────────────────────────
+export const CACHE_DIR = path.join(process.cwd(), ".cache");
+export const SKILLS_CACHE_FILE = path.join(CACHE_DIR, "topcoder-skills.json");
+// Outside the cache so `cache clear` never drops the run history
+export const HISTORY_DIR = path.join(process.cwd(), ".history");
+const DEFAULT_CREDENTIALS_FILE = path.join(process.cwd(), ".credentials.enc");
+const DEFAULT_SKILL_RULES_FILE = path.join(process.cwd(), "skill-rules.json");
+const DEFAULT_FIXTURE_DIR = path.join(process.cwd(), "fixtures");
+
+const safeName = (username: string | undefined) =>
+  (username || "unknown").replace(/[^a-zA-Z0-9_-]/g, "").toLowerCase();
+
+export const getUserCacheFile = (username: string | undefined) =>
+  path.join(CACHE_DIR, `github-${safeName(username)}.json`);
+export const getShortlistFile = (username: string) =>
+  path.join(CACHE_DIR, `shortlist-${safeName(username)}.json`);
+export const getRecommendationsFile = (username: string) =>
+  path.join(CACHE_DIR, `recommendations-${safeName(username)}.json`);
+export const getReviewFile = (username: string) =>
+  path.join(CACHE_DIR, `review-${safeName(username)}.json`);
+export const getHistoryDir = (username: string) =>
+  path.join(HISTORY_DIR, safeName(username));
+// Keyed by the resolved path too: a/users.csv and b/users.csv are two batches
+export const getBatchStateFile = (usersFile: string) => {
+  const name = safeName(path.basename(usersFile, path.extname(usersFile)));
+  const hash = crypto
+    .createHash("sha256")
+    .update(path.resolve(usersFile))
+    .digest("hex")
+    .slice(0, 12);
+  return path.join(CACHE_DIR, `batch-${name}-${hash}.json`);
+};
+
+// ── App config (env defaults, CLI flags win) ────────────────────────────────
+export interface AppConfig {
+  githubClientId?: string;
+  // Only needed to revoke tokens on GitHub (`auth logout`)
+  githubClientSecret?: string;
+  // Explicit token (CI); wins over the credential store
+  githubToken?: string;
+  credentialBackend: string;
+  credentialsFile: string;
+  credentialsPassphrase?: string;
+  // GitHub access to request and analyze (see github-auth.ts)
+  scopeProfile: ScopeProfile;
+  maxRepos: number;
+  // "owner/name" globs; a bare name matches an owner (see selection.ts)
+  repoInclude: string[];
+  repoExclude: string[];
+  collector: "rest" | "graphql";
+  githubConcurrency: number;
+  githubMaxRetries: number;
+  maxCommitDetailsPerRepo: number;
+  maxManifestsPerRepo: number;
+  evidenceSampleSize: number;
+  shortlistSize: number;
+  llmProvider: string;
+  llmModel?: string;
+  llmRepairAttempts: number;
+  consensusRuns: number;
+  // Rotated across consensus runs; empty = the configured model every run
+  consensusModels: string[];
+  consensusMinAgreement: number;
+  // Override the provider's own limits when set
+  llmTimeoutSeconds?: number;
+  llmMaxTokens?: number;
+  // What private-repo data may reach the LLM (see privacy.ts)
+  promptRedaction: PromptRedaction;
+  privateDataPolicy: PrivateDataPolicy;
+  // Print the (redacted) prompt before sending it
+  logPrompts: boolean;
+  huggingfaceToken?: string;
+  ollamaUrl: string;
+  ollamaApiKey?: string;
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+  anthropicBaseUrl: string;
+  anthropicApiKey?: string;
+  mockLlmResponseFile?: string;
+  useCache: boolean;
+  analysisCacheTtlHours: number;
+  skillsCacheTtlHours: number;
+  incremental: boolean;
+  skillRulesFile: string;
+  rulesOnly: boolean;
+  review: boolean;
+  // Record every run in HISTORY_DIR (see history.ts)
+  runHistory: boolean;
+  outputFile?: string;
+  reportFormat: ReportFormat;
+  // Replace private repo names and drop their links in exported reports
+  redactPrivate: boolean;
+  topcoderApiUrl: string;
+  topcoderToken?: string;
+  topcoderHandle?: string;
+  topcoderUserId?: string;
+  topcoderSkillLevelId?: string;
+  // Record / replay GitHub, Topcoder and LLM responses (see fixtures.ts)
+  fixtureMode: "off" | "record" | "replay";
+  fixtureDir: string;
+}
+
+function clampInt(
+  val: string | number | undefined,
+  min: number,
+  max: number,
+  fallback: number
+) {
+  const n = typeof val === "number" ? val : parseInt(val || "", 10);
+  return Number.isNaN(n) ? fallback : Math.max(min, Math.min(max, n));
+}
+
+function parseCollector(val: string | undefined): AppConfig["collector"] {
+  if (!val || val === "rest") return "rest";
+  if (val === "graphql") return "graphql";
+  throw new Error(`Unknown GitHub collector: ${val} (expected rest | graphql)`);
+}
+
+const SCOPE_PROFILE_NAMES: ScopeProfile[] = [
+  "public",
+  "fine-grained",
+  "private",
+];
+
+function parseFixtures(
+  options: CliOptions,
+  env: NodeJS.ProcessEnv
+): Pick<AppConfig, "fixtureMode" | "fixtureDir"> {
+  if (options.record) {
+    return { fixtureMode: "record", fixtureDir: path.resolve(options.record) };
+  }
+  if (options.replay) {
+    return { fixtureMode: "replay", fixtureDir: path.resolve(options.replay) };
+  }
+  const fixtureDir = env.FIXTURE_DIR
+    ? path.resolve(env.FIXTURE_DIR)
+    : DEFAULT_FIXTURE_DIR;
+  const mode = env.FIXTURE_MODE;
+  if (!mode || mode === "off") return { fixtureMode: "off", fixtureDir };
+  if (mode === "record" || mode === "replay") {
+    return { fixtureMode: mode, fixtureDir };
+  }
+  throw new Error(
+    `Unknown fixture mode: ${mode} (expected off | record | replay)`
+  );
+}
+
+function parseScopeProfile(val: string | undefined): ScopeProfile {
+  if (!val) return "private";
+  if (SCOPE_PROFILE_NAMES.includes(val as ScopeProfile)) {
+    return val as ScopeProfile;
+  }
+  throw new Error(
+    `Unknown scope profile: ${val} (expected ${SCOPE_PROFILE_NAMES.join(
+      " | "
+    )})`
+  );
+}
+
+function parseChoice<T extends string>(
+  name: string,
+  choices: T[],
+  val: string | undefined
+): T {
+  if (!val) return choices[0];
+  if (choices.includes(val as T)) return val as T;
+  throw new Error(`Unknown ${name}: ${val} (expected ${choices.join(" | ")})`);
+}
+
+function parseReportFormat(val: string | undefined): ReportFormat {
+  if (!val) return "text";
+  const format = val === "md" ? "markdown" : val;
+  if (REPORT_FORMATS.includes(format as ReportFormat)) {
+    return format as ReportFormat;
+  }
+  throw new Error(
+    `Unknown report format: ${val} (expected ${REPORT_FORMATS.join(" | ")})`
+  );
+}
+
+const splitList = (val: string | undefined) =>
+  (val ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+function parseAgreement(val: string | undefined) {
+  const n = parseFloat(val || "");
+  return Number.isNaN(n) ? 0.5 : Math.max(0, Math.min(1, n));
+}
+
+export function loadConfig(options: CliOptions): AppConfig {
+  const env = process.env;
+  return {
+    githubClientId: env.GITHUB_CLIENT_ID,
+    githubClientSecret: env.GITHUB_CLIENT_SECRET?.trim() || undefined,
+    githubToken: env.GITHUB_ACCESS_TOKEN?.trim() || undefined,
+    credentialBackend: env.CREDENTIAL_BACKEND || "file",
+    credentialsFile: env.CREDENTIALS_FILE
+      ? path.resolve(env.CREDENTIALS_FILE)
+      : DEFAULT_CREDENTIALS_FILE,
+    credentialsPassphrase: env.CREDENTIALS_PASSPHRASE || undefined,
+    scopeProfile: parseScopeProfile(
+      options.scopeProfile ?? env.GITHUB_SCOPE_PROFILE
+    ),
+    maxRepos: clampInt(
+      options.maxRepos ?? env.MAX_REPOS_TO_ANALYZE,
+      1,
+      100,
+      10
+    ),
+    repoInclude: splitList(options.include ?? env.REPO_INCLUDE),
+    repoExclude: splitList(options.exclude ?? env.REPO_EXCLUDE),
+    collector: parseCollector(options.collector ?? env.GITHUB_COLLECTOR),
+    githubConcurrency: clampInt(env.GITHUB_CONCURRENCY, 1, 20, 6),
+    githubMaxRetries: clampInt(env.GITHUB_MAX_RETRIES, 0, 10, 3),
+    maxCommitDetailsPerRepo: clampInt(
+      env.MAX_COMMIT_DETAILS_PER_REPO,
+      0,
+      10000,
+      100
+    ),
+    maxManifestsPerRepo: clampInt(env.MAX_MANIFESTS_PER_REPO, 1, 200, 20),
+    evidenceSampleSize: clampInt(env.EVIDENCE_SAMPLE_SIZE, 1, 100, 12),
+    shortlistSize: clampInt(env.SKILL_SHORTLIST_SIZE, 5, 300, 60),
+    llmProvider:
+      options.provider ?? (env.LLM_PROVIDER || "huggingface_router"),
+    llmModel: options.model,
+    llmRepairAttempts: clampInt(env.LLM_REPAIR_ATTEMPTS, 0, 5, 2),
+    consensusRuns: clampInt(options.consensus ?? env.CONSENSUS_RUNS, 1, 20, 1),
+    consensusModels: splitList(
+      options.consensusModels ?? env.CONSENSUS_MODELS
+    ),
+    consensusMinAgreement: parseAgreement(env.CONSENSUS_MIN_AGREEMENT),
+    llmTimeoutSeconds: env.LLM_TIMEOUT_SECONDS
+      ? clampInt(env.LLM_TIMEOUT_SECONDS, 1, 3600, 120)
+      : undefined,
+    llmMaxTokens: env.LLM_MAX_TOKENS
+      ? clampInt(env.LLM_MAX_TOKENS, 100, 32000, 1600)
+      : undefined,
+    promptRedaction: parseChoice(
+      "PROMPT_REDACTION",
+      ["alias", "hash", "off"],
+      env.PROMPT_REDACTION
+    ),
+    privateDataPolicy: parseChoice(
+      "PRIVATE_DATA_POLICY",
+      ["allow", "local-only"],
+      env.PRIVATE_DATA_POLICY
+    ),
+    logPrompts: options.logPrompt || env.LOG_PROMPTS === "true",
+    huggingfaceToken: env.HUGGINGFACE_TOKEN,
+    ollamaUrl: env.OLLAMA_URL || "http://localhost:11434/v1/",
+    ollamaApiKey: env.OLLAMA_API_KEY,
+    openaiBaseUrl: env.OPENAI_BASE_URL,
+    openaiApiKey: env.OPENAI_API_KEY,
+    anthropicBaseUrl: (
+      env.ANTHROPIC_BASE_URL || "https://api.anthropic.com"
+    ).replace(/\/+$/, ""),
+    anthropicApiKey: env.ANTHROPIC_API_KEY,
+    mockLlmResponseFile: env.MOCK_LLM_RESPONSE_FILE,
+    useCache: !options.noCache,
+    analysisCacheTtlHours: clampInt(
+      env.ANALYSIS_CACHE_TTL_HOURS,
+      0,
+      87600,
+      168
+    ),
+    skillsCacheTtlHours: clampInt(env.SKILLS_CACHE_TTL_HOURS, 0, 87600, 720),
+    incremental: options.incremental || env.INCREMENTAL_ANALYSIS === "true",
+    skillRulesFile: env.SKILL_RULES_FILE || DEFAULT_SKILL_RULES_FILE,
+    rulesOnly: options.rulesOnly,
+    review: options.review,
+    runHistory: env.RUN_HISTORY !== "false",
+    outputFile: options.output,
+    reportFormat: parseReportFormat(
+      options.format ??
+        (options.output && formatFromPath(options.output)) ??
+        env.REPORT_FORMAT
+    ),
+    redactPrivate:
+      options.redactPrivate || env.REDACT_PRIVATE_REPOS === "true",
+    topcoderApiUrl: (
+      env.TOPCODER_API_URL || "https://api.topcoder-dev.com/v5"
+    ).replace(/\/+$/, ""),
+    topcoderToken: env.TOPCODER_TOKEN?.trim() || undefined,
+    topcoderHandle: options.handle ?? env.TOPCODER_HANDLE,
+    topcoderUserId: env.TOPCODER_USER_ID,
+    topcoderSkillLevelId: env.TOPCODER_SKILL_LEVEL_ID,
+    ...parseFixtures(options, env),
+  };
+}
@@ -0,0 +1,52 @@
+import { ConsensusStats, Recommendation } from "./types";
+
+// ── Multi-sample consensus ──────────────────────────────────────────────────
+// Every run sees a different evidence sample (and possibly another model), so
+// a skill proposed by most runs with similar scores is a stable result; one
+// proposed by a single run is flagged for the reviewer.
+
+const round = (n: number, digits = 1) =>
+  Math.round(n * 10 ** digits) / 10 ** digits;
+
+/**
+ * Merges the recommendations of several runs: the score is the mean over the
+ * runs that proposed the skill, the reason and evidence come from its
+ * highest-scoring run.
+ */
+export function aggregateConsensus(
+  runs: Recommendation[][],
+  minAgreement: number
+): Recommendation[] {
+  const bySkill = new Map<string, Recommendation[]>();
+  runs.forEach((run) =>
+    run.forEach((r) => bySkill.set(r.id, [...(bySkill.get(r.id) || []), r]))
+  );
+
+  return Array.from(bySkill.values())
+    .map((proposals) => {
+      const scores = proposals.map((r) => r.score);
+      const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
+      const variance =
+        scores.reduce((a, s) => a + (s - mean) ** 2, 0) / scores.length;
+      const agreement = proposals.length / runs.length;
+      const consensus: ConsensusStats = {
+        runs: runs.length,
+        proposedBy: proposals.length,
+        scores,
+        meanScore: round(mean),
+        variance: round(variance),
+        unstable: agreement < minAgreement,
+      };
+      const best = proposals.reduce((a, b) => (b.score > a.score ? b : a));
+      return { ...best, score: Math.round(mean), consensus };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+export function formatConsensus(consensus: ConsensusStats) {
+  return `${consensus.proposedBy}/${consensus.runs} runs, mean ${
+    consensus.meanScore
+  } ± ${round(Math.sqrt(consensus.variance))}${
+    consensus.unstable ? " — UNSTABLE (low agreement)" : ""
+  }`;
+}
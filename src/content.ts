@@ -0,0 +1,270 @@
+import * as path from "path";
+
+// ── Commit content analysis ─────────────────────────────────────────────────
+// Signals from what the user actually changed, keyed "kind:value" and
+// weighted by the lines they changed (additions + deletions):
+//   import:<module>     modules imported on added lines
+//   framework:<name>    frameworks those imports or file names point to
+//   config:<tool>       Dockerfiles, Terraform, CI workflows, k8s manifests
+//   test:<ext>          test files touched, by extension
+//   message:<keyword>   tools named in commit / PR messages
+export type ContentSignals = Record<string, number>;
+
+// One generated or vendored file shouldn't outweigh everything else
+const MAX_LINES_PER_FILE = 500;
+// A message only names a tool, so it weighs at most like a mid-sized change;
+// PR lists carry no line counts, so a PR title counts like a small commit
+const MAX_MESSAGE_WEIGHT = 100;
+export const PR_MESSAGE_WEIGHT = 20;
+
+export function addSignal(
+  signals: ContentSignals,
+  key: string,
+  weight: number
+) {
+  signals[key] = (signals[key] || 0) + weight;
+}
+
+/** "import:@nestjs/core" → ["import", "@nestjs/core"] */
+export function splitSignal(signal: string): [string, string] {
+  const i = signal.indexOf(":");
+  return [signal.slice(0, i), signal.slice(i + 1)];
+}
+
+export function mergeSignals(...all: ContentSignals[]): ContentSignals {
+  const merged: ContentSignals = {};
+  all.forEach((signals) =>
+    Object.entries(signals || {}).forEach(([k, w]) => addSignal(merged, k, w))
+  );
+  return merged;
+}
+
+/** Strongest signals first. */
+export function rankSignals(signals: ContentSignals, n: number) {
+  return Object.entries(signals || {})
+    .sort(([ka, a], [kb, b]) => b - a || ka.localeCompare(kb))
+    .slice(0, n);
+}
+
+export const formatSignals = (signals: ContentSignals, n: number) =>
+  rankSignals(signals, n)
+    .map(([key, lines]) => `${key} (${lines})`)
+    .join(", ");
+
+// ── Config files & tests (by path) ──────────────────────────────────────────
+const CONFIG_FILES: [RegExp, string][] = [
+  [/(^|\/)(Dockerfile|Containerfile)(\.[\w.-]+)?$|\.dockerfile$/i, "docker"],
+  [/(^|\/)(docker-)?compose(\.[\w-]+)?\.ya?ml$/i, "docker-compose"],
+  [/\.tf$|\.tfvars$|(^|\/)terragrunt\.hcl$/i, "terraform"],
+  [/(^|\/)\.github\/workflows\/[^/]+\.ya?ml$/i, "github-actions"],
+  [/(^|\/)\.gitlab-ci\.ya?ml$/i, "gitlab-ci"],
+  [/(^|\/)Jenkinsfile$/, "jenkins"],
+  [/(^|\/)\.circleci\//, "circleci"],
+  [/(^|\/)Chart\.ya?ml$/, "helm"],
+  [
+    /(^|\/)(k8s|kubernetes)\/.+\.ya?ml$|(^|\/)kustomization\.ya?ml$/i,
+    "kubernetes",
+  ],
+  [/(^|\/)serverless\.ya?ml$/i, "serverless"],
+  [/(^|\/)(ansible|playbooks?)\/.+\.ya?ml$/i, "ansible"],
+  [/(^|\/)nginx[^/]*\.conf$/i, "nginx"],
+];
+// Kubernetes manifests outside a k8s/ folder are recognized by their kind
+const K8S_KIND =
+  /^\+\s*kind:\s*(Deployment|Service|Ingress|StatefulSet|DaemonSet|ConfigMap|CronJob|Job|Pod|HorizontalPodAutoscaler|Namespace)\s*$/m;
+
+const TEST_FILE =
+  /(^|\/)(__tests__|tests?|specs?)\/|\.(test|spec)\.\w+$|_test\.(go|py)$|(^|\/)test_[^/]+\.py$|Tests?\.(java|kt|cs)$|_spec\.rb$/;
+
+// ── Imports (added lines of the patch) ──────────────────────────────────────
+type ImportParser = (line: string) => string | undefined;
+
+const firstSegments = (name: string, sep: string, n: number) =>
+  name.split(sep).slice(0, n).join(sep);
+
+// Standard library modules say nothing about the stack
+const words = (text: string) => new Set(text.trim().split(/\s+/));
+const JS_BUILTINS = words(`
+  assert buffer child_process crypto events fs http https os path process
+  stream url util zlib`);
+const PYTHON_STDLIB = words(`
+  abc argparse asyncio collections csv dataclasses datetime enum functools
+  glob hashlib io itertools json logging math os pathlib random re shutil
+  subprocess sys tempfile time typing unittest uuid`);
+
+const JS_IMPORT =
+  /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"]+)['"]/;
+const parseJsImport: ImportParser = (line) => {
+  const module = line.match(JS_IMPORT)?.[1];
+  if (!module || /^[./]|^node:|^~/.test(module)) return undefined;
+  const name = firstSegments(module, "/", module.startsWith("@") ? 2 : 1);
+  return JS_BUILTINS.has(name) ? undefined : name;
+};
+
+const IMPORT_PARSERS: Record<string, ImportParser> = {
+  js: parseJsImport,
+  jsx: parseJsImport,
+  mjs: parseJsImport,
+  cjs: parseJsImport,
+  ts: parseJsImport,
+  tsx: parseJsImport,
+  vue: parseJsImport,
+  svelte: parseJsImport,
+  py: (line) => {
+    const m = line.match(/^\s*(?:from\s+([\w.]+)\s+import|import\s+([\w.]+))/);
+    const name = m && (m[1] || m[2]).split(".")[0];
+    return name && !PYTHON_STDLIB.has(name) ? name : undefined;
+  },
+  go: (line) => {
+    const m = line.match(/^\s*(?:import\s+)?(?:[\w.]+\s+)?"([^"]+)"\s*$/);
+    // Module paths start with a domain; the standard library doesn't
+    if (!m || !m[1].split("/")[0].includes(".")) return undefined;
+    return firstSegments(m[1], "/", 3);
+  },
+  java: (line) => {
+    const m = line.match(/^\s*import\s+(?:static\s+)?([\w.]+)/);
+    if (!m || /^(java|javax|kotlin)\./.test(m[1])) return undefined;
+    return firstSegments(m[1], ".", 3);
+  },
+  rb: (line) =>
+    line.match(/^\s*require\s+['"]([^'"./][^'"]*)['"]/)?.[1].split("/")[0],
+  rs: (line) => {
+    const m = line.match(/^\s*(?:pub\s+)?(?:use|extern\s+crate)\s+(\w+)/);
+    return m && !/^(std|core|alloc|crate|self|super)$/.test(m[1])
+      ? m[1]
+      : undefined;
+  },
+  cs: (line) => {
+    const m = line.match(/^\s*using\s+([\w.]+)\s*;/);
+    return m && !/^System\b/.test(m[1])
+      ? firstSegments(m[1], ".", 2)
+      : undefined;
+  },
+  php: (line) =>
+    line.match(/^\s*use\s+\\?([A-Za-z_]\w*)\\/)?.[1].toLowerCase(),
+};
+IMPORT_PARSERS.kt = IMPORT_PARSERS.java;
+IMPORT_PARSERS.scala = IMPORT_PARSERS.java;
+
+// Imported module (or prefix) → framework
+const FRAMEWORK_IMPORTS: [string, string][] = [
+  ["react", "react"],
+  ["react-dom", "react"],
+  ["next", "next.js"],
+  ["vue", "vue"],
+  ["@angular/core", "angular"],
+  ["svelte", "svelte"],
+  ["express", "express"],
+  ["@nestjs/core", "nestjs"],
+  ["@nestjs/common", "nestjs"],
+  ["fastify", "fastify"],
+  ["django", "django"],
+  ["flask", "flask"],
+  ["fastapi", "fastapi"],
+  ["torch", "pytorch"],
+  ["tensorflow", "tensorflow"],
+  ["sklearn", "scikit-learn"],
+  ["org.springframework", "spring"],
+  ["github.com/gin-gonic/gin", "gin"],
+  ["rails", "rails"],
+  ["illuminate", "laravel"],
+  ["jest", "jest"],
+  ["@jest/globals", "jest"],
+  ["vitest", "vitest"],
+  ["pytest", "pytest"],
+  ["org.junit", "junit"],
+];
+const frameworkOf = (module: string) =>
+  FRAMEWORK_IMPORTS.find(
+    ([prefix]) => module === prefix || module.startsWith(`${prefix}.`)
+  )?.[1];
+
+const FRAMEWORK_FILES: [RegExp, string][] = [
+  [/\.vue$/, "vue"],
+  [/\.svelte$/, "svelte"],
+  [/\.component\.ts$/, "angular"],
+];
+
+// ── Messages ────────────────────────────────────────────────────────────────
+const MESSAGE_KEYWORDS: [RegExp, string][] = [
+  [/\bdocker(file)?\b/i, "docker"],
+  [/\b(kubernetes|k8s|kubectl)\b/i, "kubernetes"],
+  [/\bhelm\b/i, "helm"],
+  [/\bterraform\b/i, "terraform"],
+  [/\b(github actions|ci\/cd|ci pipeline)\b/i, "ci"],
+  [/\bgraphql\b/i, "graphql"],
+  [/\bredis\b/i, "redis"],
+  [/\b(postgres|postgresql)\b/i, "postgresql"],
+  [/\bmysql\b/i, "mysql"],
+  [/\bmongo(db)?\b/i, "mongodb"],
+  [/\bkafka\b/i, "kafka"],
+  [/\b(aws|lambda|s3 bucket)\b/i, "aws"],
+  [/\bazure\b/i, "azure"],
+  [/\b(gcp|google cloud)\b/i, "gcp"],
+  [/\b(oauth|jwt)\b/i, "auth"],
+  [/\b(unit tests?|e2e|integration tests?)\b/i, "testing"],
+  [/\b(migration|migrations)\b/i, "database-migrations"],
+  [/\b(accessibility|a11y)\b/i, "accessibility"],
+  [/\b(performance|perf)\b/i, "performance"],
+];
+
+export function analyzeMessage(
+  message: string,
+  weight: number,
+  signals: ContentSignals
+) {
+  for (const [pattern, keyword] of MESSAGE_KEYWORDS) {
+    if (pattern.test(message)) addSignal(signals, `message:${keyword}`, weight);
+  }
+}
+
+// ── Commit detail (GET /repos/:repo/commits/:sha) ───────────────────────────
+export function analyzeCommitDetail(detail: any, signals: ContentSignals) {
+  let total = 0;
+  for (const file of detail.files || []) {
+    const filename: string = file.filename || "";
+    const lines = Math.min(
+      MAX_LINES_PER_FILE,
+      (file.additions || 0) + (file.deletions || 0)
+    );
+    const weight = Math.max(1, lines);
+    total += weight;
+
+    const ext = path.extname(filename).slice(1).toLowerCase();
+    const keys = new Set<string>();
+    CONFIG_FILES.forEach(([pattern, tool]) => {
+      if (pattern.test(filename)) keys.add(`config:${tool}`);
+    });
+    if (/\.ya?ml$/i.test(filename) && K8S_KIND.test(file.patch || "")) {
+      keys.add("config:kubernetes");
+    }
+    if (TEST_FILE.test(filename)) keys.add(`test:${ext || "other"}`);
+    FRAMEWORK_FILES.forEach(([pattern, framework]) => {
+      if (pattern.test(filename)) keys.add(`framework:${framework}`);
+    });
+
+    // Binary and very large files come without a patch
+    const parseImport = IMPORT_PARSERS[ext];
+    if (parseImport && file.patch) {
+      for (const line of file.patch.split("\n")) {
+        if (!line.startsWith("+") || line.startsWith("+++")) continue;
+        const module = parseImport(line.slice(1));
+        if (!module) continue;
+        keys.add(`import:${module}`);
+        const framework = frameworkOf(module.toLowerCase());
+        if (framework) keys.add(`framework:${framework}`);
+      }
+    }
+
+    keys.forEach((key) => addSignal(signals, key, weight));
+  }
+
+  const message = detail.commit?.message;
+  if (message) {
+    analyzeMessage(
+      message,
+      Math.min(MAX_MESSAGE_WEIGHT, Math.max(1, total)),
+      signals
+    );
+  }
+}
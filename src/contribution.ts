@@ -0,0 +1,82 @@
+import { RepoSummary } from "./types";
+
+// ── Contribution weights ────────────────────────────────────────────────────
+// How much a repo's languages, dependencies and file types count toward the
+// user's profile. A repo the user owns and mostly wrote counts fully; a fork,
+// someone else's project with a drive-by commit, or years-old work counts
+// less. Weights multiply:
+//   share     0.25 + 0.75 × the user's share of the default branch's commits
+//   ownership 1 for the user's own repos, 0.7 for contributions
+//   fork      0.3 (the code is mostly upstream's)
+//   recency   halves every 2 years since the user's last commit / PR
+const MIN_SHARE_FACTOR = 0.25;
+// Share unknown (empty default branch, failed lookup)
+const UNKNOWN_SHARE = 0.5;
+const CONTRIBUTED_FACTOR = 0.7;
+const FORK_FACTOR = 0.3;
+const RECENCY_HALF_LIFE_YEARS = 2;
+const MIN_RECENCY_FACTOR = 0.25;
+const MIN_WEIGHT = 0.05;
+
+const YEAR_MS = 365.25 * 24 * 3600 * 1000;
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export interface ContributionWeight {
+  weight: number;
+  // User's commits / all default-branch commits, when known
+  share?: number;
+  owned: boolean;
+  fork: boolean;
+  ageYears?: number;
+}
+
+export function contributionWeight(
+  repo: RepoSummary,
+  now = Date.now()
+): ContributionWeight {
+  const info = repo.contribution;
+  const share =
+    info?.totalCommits && info.totalCommits > 0
+      ? Math.min(1, repo.commitCount / info.totalCommits)
+      : undefined;
+  const owned = info?.owned ?? false;
+  const fork = info?.fork ?? false;
+  const ageYears = repo.lastActivityAt
+    ? Math.max(0, (now - Date.parse(repo.lastActivityAt)) / YEAR_MS)
+    : undefined;
+
+  const shareFactor =
+    MIN_SHARE_FACTOR + (1 - MIN_SHARE_FACTOR) * (share ?? UNKNOWN_SHARE);
+  const recencyFactor =
+    ageYears === undefined
+      ? 1
+      : Math.max(
+          MIN_RECENCY_FACTOR,
+          0.5 ** (ageYears / RECENCY_HALF_LIFE_YEARS)
+        );
+  const weight =
+    shareFactor *
+    (owned ? 1 : CONTRIBUTED_FACTOR) *
+    (fork ? FORK_FACTOR : 1) *
+    recencyFactor;
+
+  return {
+    weight: round(Math.max(MIN_WEIGHT, weight)),
+    share: share === undefined ? undefined : round(share),
+    owned,
+    fork,
+    ageYears: ageYears === undefined ? undefined : round(ageYears),
+  };
+}
+
+export function formatContribution(c: ContributionWeight) {
+  return [
+    `weight ${c.weight}`,
+    c.share !== undefined && `${Math.round(c.share * 100)}% of commits`,
+    c.owned ? "owner" : "contributor",
+    c.fork && "fork",
+    c.ageYears !== undefined && `last active ${c.ageYears}y ago`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
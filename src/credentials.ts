@@ -0,0 +1,252 @@
+import crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { promisify } from "util";
+import { AppConfig } from "./config";
+
+// ── Backend interface ───────────────────────────────────────────────────────
+// Where tokens live between runs. The app only goes through
+// getCredentialBackend, so another store (an OS keychain, a secrets manager)
+// is one more entry in CREDENTIAL_BACKENDS. Backends never print secrets.
+export interface StoredCredential {
+  token: string;
+  // Account and granted scopes at the time the token was saved
+  login?: string;
+  scopes: string[];
+  // Scope profile the token was requested for
+  profile?: string;
+  savedAt: string;
+}
+
+export interface CredentialBackend {
+  name: string;
+  label: string;
+  load(key: string, config: AppConfig): Promise<StoredCredential | null>;
+  save(
+    key: string,
+    credential: StoredCredential,
+    config: AppConfig
+  ): Promise<void>;
+  // false when there was nothing to remove
+  remove(key: string, config: AppConfig): Promise<boolean>;
+}
+
+// ── Passphrase ──────────────────────────────────────────────────────────────
+// CREDENTIALS_PASSPHRASE, else asked once per process (input not echoed)
+let sessionPassphrase: string | undefined;
+
+function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const stdin = process.stdin;
+    let value = "";
+    const finish = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write("\n");
+    };
+    const onData = (chunk: string) => {
+      for (const ch of chunk) {
+        if (ch === "\r" || ch === "\n") {
+          finish();
+          resolve(value);
+          return;
+        }
+        if (ch === "\u0003") {
+          finish();
+          reject(new Error("Cancelled"));
+          return;
+        }
+        const erase = ch === "\u007f" || ch === "\b";
+        value = erase ? value.slice(0, -1) : value + ch;
+      }
+    };
+
+    process.stdout.write(question);
+    stdin.setEncoding("utf-8");
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+}
+
+async function getPassphrase(config: AppConfig, file: string) {
+  if (config.credentialsPassphrase) return config.credentialsPassphrase;
+  if (sessionPassphrase) return sessionPassphrase;
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      "Not a terminal: set CREDENTIALS_PASSPHRASE to unlock the credential store"
+    );
+  }
+  const passphrase = await promptHidden(
+    `Passphrase for ${path.relative(process.cwd(), file) || file}: `
+  );
+  if (!passphrase) throw new Error("The credential passphrase can't be empty");
+  sessionPassphrase = passphrase;
+  return passphrase;
+}
+
+// ── Encrypted file ──────────────────────────────────────────────────────────
+// AES-256-GCM over the JSON map key → StoredCredential, key derived from the
+// passphrase with scrypt. A wrong passphrase fails the GCM tag check.
+const FILE_VERSION = 1;
+const SCRYPT = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+interface EncryptedFile {
+  version: number;
+  kdf: { name: "scrypt"; N: number; r: number; p: number; salt: string };
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+async function readStore(
+  config: AppConfig
+): Promise<Record<string, StoredCredential>> {
+  const file = config.credentialsFile;
+  let encrypted: EncryptedFile;
+  try {
+    encrypted = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch (err: any) {
+    if (err.code === "ENOENT") return {};
+    throw new Error(`Cannot read credential store ${file}: ${err.message}`);
+  }
+  if (encrypted.version !== FILE_VERSION) {
+    throw new Error(
+      `Credential store ${file}: version ${encrypted.version}, expected ${FILE_VERSION}`
+    );
+  }
+
+  const { N, r, p, salt } = encrypted.kdf;
+  const key = await scrypt(
+    await getPassphrase(config, file),
+    Buffer.from(salt, "base64"),
+    32,
+    { N, r, p, maxmem: SCRYPT.maxmem }
+  );
+  try {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(encrypted.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(encrypted.tag, "base64"));
+    const plain = Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(plain.toString("utf-8"));
+  } catch {
+    sessionPassphrase = undefined;
+    throw new Error(
+      `Cannot decrypt ${file}: wrong passphrase or corrupted file`
+    );
+  }
+}
+
+async function writeStore(
+  config: AppConfig,
+  store: Record<string, StoredCredential>
+) {
+  const file = config.credentialsFile;
+  if (Object.keys(store).length === 0) {
+    await fs.rm(file, { force: true });
+    return;
+  }
+
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = await scrypt(await getPassphrase(config, file), salt, 32, SCRYPT);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(store), "utf-8"),
+    cipher.final(),
+  ]);
+  const encrypted: EncryptedFile = {
+    version: FILE_VERSION,
+    kdf: {
+      name: "scrypt",
+      N: SCRYPT.N,
+      r: SCRYPT.r,
+      p: SCRYPT.p,
+      salt: salt.toString("base64"),
+    },
+    cipher: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Owner-only where the OS supports modes
+  await fs.writeFile(file, JSON.stringify(encrypted, null, 2), {
+    mode: 0o600,
+  });
+}
+
+const encryptedFileBackend: CredentialBackend = {
+  name: "file",
+  label: "encrypted credential file",
+  async load(key, config) {
+    return (await readStore(config))[key] ?? null;
+  },
+  async save(key, credential, config) {
+    const store = await readStore(config);
+    store[key] = credential;
+    await writeStore(config, store);
+  },
+  async remove(key, config) {
+    const store = await readStore(config);
+    if (!store[key]) return false;
+    delete store[key];
+    await writeStore(config, store);
+    return true;
+  },
+};
+
+// ── No storage ──────────────────────────────────────────────────────────────
+// Tokens only live for the current process: every run signs in again
+// (unless GITHUB_ACCESS_TOKEN is set)
+const memory = new Map<string, StoredCredential>();
+
+const memoryBackend: CredentialBackend = {
+  name: "none",
+  label: "memory (not persisted)",
+  async load(key) {
+    return memory.get(key) ?? null;
+  },
+  async save(key, credential) {
+    memory.set(key, credential);
+  },
+  async remove(key) {
+    return memory.delete(key);
+  },
+};
+
+// ── Registry ────────────────────────────────────────────────────────────────
+export const CREDENTIAL_BACKENDS: CredentialBackend[] = [
+  encryptedFileBackend,
+  memoryBackend,
+];
+
+export const CREDENTIAL_BACKEND_NAMES = CREDENTIAL_BACKENDS.map((b) => b.name);
+
+export function getCredentialBackend(name: string): CredentialBackend {
+  const backend = CREDENTIAL_BACKENDS.find((b) => b.name === name);
+  if (!backend) {
+    throw new Error(
+      `Unknown credential backend: ${name} (expected ${CREDENTIAL_BACKEND_NAMES.join(
+        " | "
+      )})`
+    );
+  }
+  return backend;
+}
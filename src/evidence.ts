@@ -0,0 +1,184 @@
+import { MANIFEST_PARSERS, splitDependency } from "./manifests";
+import { CachedUserAnalysis, EvidenceCheck, Recommendation } from "./types";
+
+// ── Evidence verification ───────────────────────────────────────────────────
+// The model's reasons cite commit/PR links and package names. Every citation
+// is checked against the cached analysis; a recommendation citing links or
+// packages the analysis doesn't contain is flagged and loses score, so one
+// resting on invented evidence falls below the 40 cut-off.
+const UNVERIFIED_PENALTY = 15;
+const MAX_UNVERIFIED_PENALTY = 45;
+
+const CITED_LINK = /https?:\/\/[^\s)"'<>\]]+/g;
+const SHORT_COMMIT = /\/commit\/[0-9a-f]{7,39}$/;
+const TOKEN = /[@\w][\w.@/:-]*/g;
+
+// Only clear package citations count as fabricated when unknown:
+// "@scope/name", "ecosystem:name" and a bare name in a code span
+// (`react-query`). Bare words in prose are verified when they name a
+// collected dependency; unknown compound names ("django_filters",
+// "type-safe") are recorded without a penalty, since prose is full of them.
+const SCOPED_PACKAGE = /^@[\w.-]+\/[\w.-]+$/;
+const TAGGED_PACKAGE = new RegExp(
+  `^(${Array.from(new Set(MANIFEST_PARSERS.map((p) => p.ecosystem))).join(
+    "|"
+  )}):[\\w.@/-]+$`
+);
+const CODE_SPAN = /`([^`\s]+)`/g;
+const BARE_NAME = /^[a-z][a-z0-9]*(?:[-_][a-z0-9]+)*$/;
+const BARE_COMPOUND = /^[a-z][a-z0-9]*(?:[-_][a-z0-9]+)+$/;
+
+const normalizeLink = (url: string) =>
+  url
+    .replace(/[.,;:!?]+$/, "")
+    .replace(/\/+$/, "")
+    .replace(/^http:/, "https:")
+    .toLowerCase();
+
+// Lower-cased names a reason may use for a dependency → the tagged dependency
+function indexDependencies(analysis: CachedUserAnalysis) {
+  const index = new Map<string, string>();
+  const add = (alias: string, dep: string) => {
+    if (alias.length >= 2 && !index.has(alias)) index.set(alias, dep);
+  };
+  // Code signals ("import:pandas", "config:docker") are citable like packages
+  const deps = new Set([
+    ...analysis.topDependencies,
+    ...Object.keys(analysis.topSignals || {}),
+    ...Object.values(analysis.repos || {}).flatMap((r) => [
+      ...r.dependencies,
+      ...Object.keys(r.signals || {}),
+    ]),
+  ]);
+  for (const dep of deps) {
+    const { name } = splitDependency(dep);
+    const lower = name.toLowerCase();
+    add(dep.toLowerCase(), dep);
+    add(lower, dep);
+    // "@radix-ui/react-dialog" is also cited as "radix-ui"
+    const scope = lower.match(/^@([^/]+)\//);
+    if (scope) add(scope[1], dep);
+    // maven "group:artifact" → "artifact", go "github.com/org/mod" → "mod"
+    const last = lower.split(/[:/]/).pop()!;
+    if (last !== lower && !/^v\d+$/.test(last)) add(last, dep);
+  }
+  return index;
+}
+
+// Normalized link → the link as collected
+function indexLinks(analysis: CachedUserAnalysis) {
+  const links = new Map(
+    [
+      ...analysis.allEvidenceLinks,
+      ...Object.values(analysis.repos || {}).flatMap((r) => r.evidence),
+    ].map((link) => [normalizeLink(link), link])
+  );
+  const repoNames = [
+    ...analysis.reposToAnalyze,
+    ...Object.keys(analysis.repos || {}),
+  ].map((repo) => repo.toLowerCase());
+  const repos = new Set(repoNames.map((repo) => `https://github.com/${repo}`));
+  // Bare repo names ("my-api") and the login are cited like package names
+  const names = new Set([
+    analysis.username.toLowerCase(),
+    ...repoNames.flatMap((repo) => repo.split("/")),
+  ]);
+  return { links, repos, names };
+}
+
+// The collected link a citation refers to, if any
+function findKnownLink(
+  url: string,
+  known: ReturnType<typeof indexLinks>
+): string | undefined {
+  const link = normalizeLink(url);
+  if (known.links.has(link)) return known.links.get(link);
+  if (known.repos.has(link)) return url;
+  // Abbreviated commit SHAs
+  if (SHORT_COMMIT.test(link)) {
+    for (const [k, original] of known.links) {
+      if (k.startsWith(link)) return original;
+    }
+  }
+  return undefined;
+}
+
+// Links and packages cited in one reason, split into verified / unverified
+function checkEvidence(
+  reason: string,
+  index: {
+    links: ReturnType<typeof indexLinks>;
+    dependencies: Map<string, string>;
+  }
+): EvidenceCheck {
+  const check: EvidenceCheck = {
+    links: [],
+    dependencies: [],
+    unverified: [],
+    unknown: [],
+  };
+  const cited = (reason.match(CITED_LINK) || []).map((l) =>
+    l.replace(/[.,;:!?]+$/, "")
+  );
+  for (const link of new Set(cited)) {
+    const known = findKnownLink(link, index.links);
+    if (!known) check.unverified.push(link);
+    else if (!check.links.includes(known)) check.links.push(known);
+  }
+
+  const prose = reason.replace(CITED_LINK, " ");
+  const codeSpans = new Set(
+    Array.from(prose.matchAll(CODE_SPAN), (m) => m[1].toLowerCase())
+  );
+  const tokens = (prose.match(TOKEN) || []).map((t) =>
+    t.replace(/[.:/-]+$/, "")
+  );
+  for (const token of new Set(tokens)) {
+    const lower = token.toLowerCase();
+    const dep = index.dependencies.get(lower);
+    if (dep) {
+      if (!check.dependencies.includes(dep)) check.dependencies.push(dep);
+      continue;
+    }
+    if (index.links.names.has(lower)) continue;
+    const list =
+      SCOPED_PACKAGE.test(token) ||
+      TAGGED_PACKAGE.test(token) ||
+      (codeSpans.has(lower) && BARE_NAME.test(token))
+        ? check.unverified
+        : BARE_COMPOUND.test(token)
+        ? check.unknown
+        : undefined;
+    if (list && !list.includes(token)) list.push(token);
+  }
+  return check;
+}
+
+/**
+ * Records the verified evidence on each recommendation and lowers the score
+ * of those citing evidence the analysis doesn't contain.
+ */
+export function verifyRecommendations(
+  recommendations: Recommendation[],
+  analysis: CachedUserAnalysis
+): Recommendation[] {
+  const index = {
+    links: indexLinks(analysis),
+    dependencies: indexDependencies(analysis),
+  };
+  return recommendations.map((r) => {
+    const verification = checkEvidence(r.info, index);
+    const penalty = Math.min(
+      MAX_UNVERIFIED_PENALTY,
+      verification.unverified.length * UNVERIFIED_PENALTY
+    );
+    if (penalty > 0) {
+      console.warn(
+        `Unverified evidence for "${r.name}": ${verification.unverified.join(
+          ", "
+        )} (score ${r.score} → ${Math.max(0, r.score - penalty)})`
+      );
+    }
+    return { ...r, score: Math.max(0, r.score - penalty), verification };
+  });
+}
@@ -0,0 +1,287 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { AppConfig } from "./config";
+
+// ── Layout ──────────────────────────────────────────────────────────────────
+// <fixture dir>/manifest.json     recording time (the clock while replaying)
+// <fixture dir>/http/<key>.json   GitHub / Topcoder responses, per request
+// <fixture dir>/llm/<key>.json    LLM answers, per prompt
+// Keys hash the method, URL and body (HTTP) or the provider, model, messages
+// and schema (LLM), never headers, and token fields of response bodies
+// (device flow sign-in) are scrubbed: tokens don't end up in fixtures, and a
+// replay works with any token. A request made several times in a run (device
+// flow polling, retries) stores every answer; replays give them in order and
+// repeat the last one.
+export const FIXTURE_SCHEMA_VERSION = 1;
+
+interface FixtureManifest {
+  schemaVersion: number;
+  recordedAt: string;
+}
+interface FixtureFile<T> {
+  request: object;
+  responses: T[];
+}
+interface HttpFixtureResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+interface FixtureSession {
+  mode: "record" | "replay";
+  dir: string;
+  // Recording time: fixes recency weights and ranks across replays
+  now: number;
+  random: () => number;
+  // key → times requested in this run
+  seen: Map<string, number>;
+  // key → fixture being recorded
+  recorded: Map<string, FixtureFile<unknown>>;
+}
+
+let session: FixtureSession | undefined;
+
+const fixtureFile = (dir: string, kind: string, key: string) =>
+  path.join(dir, kind, `${key}.json`);
+
+const fixtureKey = (kind: string, request: object, body?: unknown) =>
+  crypto
+    .createHash("sha256")
+    .update(JSON.stringify({ kind, request, body }))
+    .digest("hex")
+    .slice(0, 16);
+
+// ── Clock & randomness ──────────────────────────────────────────────────────
+// Seeded while recording or replaying so the evidence samples, and with them
+// the prompts, are the same on every run over the same fixtures
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  // mulberry32
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Date.now(), or the recording time while recording / replaying. */
+export const now = () => session?.now ?? Date.now();
+
+/** Math.random(), or a fixed-seed generator while recording / replaying. */
+export const random = () => (session ? session.random() : Math.random());
+
+// ── Record / replay ─────────────────────────────────────────────────────────
+async function withFixture<T>(
+  kind: string,
+  key: string,
+  request: object,
+  label: string,
+  live: () => Promise<T>,
+  // What goes to disk; the live run still gets the response as it came
+  toStored: (response: T) => T = (response) => response
+): Promise<T> {
+  if (!session) return live();
+  const s = session;
+  const index = s.seen.get(key) ?? 0;
+  s.seen.set(key, index + 1);
+
+  if (s.mode === "replay") {
+    let fixture: FixtureFile<T>;
+    try {
+      fixture = JSON.parse(
+        fs.readFileSync(fixtureFile(s.dir, kind, key), "utf-8")
+      );
+    } catch {
+      throw new Error(
+        `No recorded ${kind} response for ${label} in ${s.dir} — record it with --record`
+      );
+    }
+    return fixture.responses[Math.min(index, fixture.responses.length - 1)];
+  }
+
+  const response = await live();
+  // The first answer of this run replaces what an earlier recording stored
+  const fixture = (index > 0 && s.recorded.get(key)) || {
+    request,
+    responses: [],
+  };
+  fixture.responses.push(toStored(response));
+  s.recorded.set(key, fixture);
+  const file = fixtureFile(s.dir, kind, key);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Synchronous: concurrent requests for one key can't interleave writes
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+  return response;
+}
+
+// ── HTTP (axios) ────────────────────────────────────────────────────────────
+const SECRET_FIELDS = ["access_token", "refresh_token", "token"];
+const SCRUBBED = "[scrubbed]";
+
+function scrubSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(scrubSecrets);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [
+        k,
+        SECRET_FIELDS.includes(k) && typeof v === "string"
+          ? SCRUBBED
+          : scrubSecrets(v),
+      ])
+    );
+  }
+  return value;
+}
+
+const toFixtureResponse = (res: AxiosResponse): HttpFixtureResponse => {
+  const headers = AxiosHeaders.from(
+    res.headers as AxiosHeaders
+  ).toJSON(true) as Record<string, string>;
+  delete headers["set-cookie"];
+  let data = res.data;
+  // Stored parsed so fixtures are readable; axios leaves objects as they are
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {}
+  }
+  return { status: res.status, headers, data };
+};
+
+// Recorded error responses reject again, exactly like the live request did
+function settle(
+  config: InternalAxiosRequestConfig,
+  fixture: HttpFixtureResponse
+): AxiosResponse {
+  const response: AxiosResponse = {
+    data: fixture.data,
+    status: fixture.status,
+    statusText: "",
+    headers: new AxiosHeaders(fixture.headers),
+    config,
+    request: {},
+  };
+  if (!config.validateStatus || config.validateStatus(fixture.status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${fixture.status}`,
+    fixture.status >= 500
+      ? AxiosError.ERR_BAD_RESPONSE
+      : AxiosError.ERR_BAD_REQUEST,
+    config,
+    {},
+    response
+  );
+}
+
+function createFixtureAdapter(live: AxiosAdapter): AxiosAdapter {
+  return async (config) => {
+    const request = {
+      method: (config.method || "get").toUpperCase(),
+      url: axios.getUri(config),
+    };
+    // The body only goes into the key: it may carry a token (revocation)
+    const key = fixtureKey("http", request, config.data);
+    const fixture = await withFixture(
+      "http",
+      key,
+      request,
+      `${request.method} ${request.url}`,
+      async () => {
+        try {
+          return toFixtureResponse(await live(config));
+        } catch (err) {
+          if (axios.isAxiosError(err) && err.response) {
+            return toFixtureResponse(err.response);
+          }
+          throw err;
+        }
+      },
+      (res) => ({ ...res, data: scrubSecrets(res.data) })
+    );
+    return settle(config, fixture);
+  };
+}
+
+// ── LLM ─────────────────────────────────────────────────────────────────────
+/** Records / replays one LLM answer (see callLLM). */
+export function withLlmFixture(
+  request: object,
+  live: () => Promise<string>
+): Promise<string> {
+  return withFixture(
+    "llm",
+    fixtureKey("llm", request),
+    request,
+    "this prompt",
+    live
+  );
+}
+
+// ── Session ─────────────────────────────────────────────────────────────────
+/**
+ * Starts recording to / replaying from config.fixtureDir. Every axios client
+ * created afterwards (GitHub, Topcoder, auth) goes through the fixtures;
+ * LLM calls go through withLlmFixture.
+ */
+export function startFixtures(config: AppConfig) {
+  if (config.fixtureMode === "off") return;
+  const dir = config.fixtureDir;
+  const manifestFile = path.join(dir, "manifest.json");
+
+  let manifest: FixtureManifest;
+  if (config.fixtureMode === "replay") {
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestFile, "utf-8"));
+    } catch {
+      throw new Error(
+        `No fixtures in ${dir} (manifest.json missing) — record them first with --record`
+      );
+    }
+    if (manifest.schemaVersion !== FIXTURE_SCHEMA_VERSION) {
+      throw new Error(
+        `Fixtures in ${dir}: version ${manifest.schemaVersion}, expected ${FIXTURE_SCHEMA_VERSION} — record them again`
+      );
+    }
+  } else {
+    manifest = {
+      schemaVersion: FIXTURE_SCHEMA_VERSION,
+      recordedAt: new Date().toISOString(),
+    };
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(manifestFile, JSON.stringify(manifest, null, 2));
+  }
+
+  session = {
+    mode: config.fixtureMode,
+    dir,
+    now: Date.parse(manifest.recordedAt),
+    random: seededRandom(0x5eed),
+    seen: new Map(),
+    recorded: new Map(),
+  };
+  axios.defaults.adapter = createFixtureAdapter(
+    axios.getAdapter(axios.defaults.adapter)
+  );
+  const where = path.relative(process.cwd(), dir) || dir;
+  console.log(
+    config.fixtureMode === "record"
+      ? `Recording fixtures to ${where} (clock: ${manifest.recordedAt})`
+      : `Replaying fixtures from ${where} (clock: ${manifest.recordedAt})`
+  );
+}
+
+/** True while replaying: no network, so no provider credentials needed. */
+export const isReplaying = () => session?.mode === "replay";
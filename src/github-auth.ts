@@ -0,0 +1,235 @@
+import axios from "axios";
+import { promisify } from "util";
+import { getApiCallsCounter } from "./github";
+import { ScopeProfile } from "./types";
+
+const sleep = promisify(setTimeout);
+
+// ── Token lifecycle ─────────────────────────────────────────────────────────
+// Device flow sign-in, validation and revocation of GitHub OAuth tokens.
+// Tokens only ever go into request headers / bodies, never into logs or
+// error messages.
+const GITHUB_API = "https://api.github.com";
+
+// ── Scope profiles ──────────────────────────────────────────────────────────
+// How much access the tool asks for (GITHUB_SCOPE_PROFILE / --scope-profile).
+// Discovery and reports follow the profile: `public` never analyzes a private
+// repo, even when the token could read it.
+export interface ScopeProfileInfo {
+  label: string;
+  // OAuth scopes requested by the device flow
+  scopes: string[];
+  includePrivate: boolean;
+  // false: the token must come from GITHUB_ACCESS_TOKEN
+  deviceFlow: boolean;
+}
+
+export const SCOPE_PROFILES: Record<ScopeProfile, ScopeProfileInfo> = {
+  public: {
+    label: "public repositories only (no scopes)",
+    scopes: [],
+    includePrivate: false,
+    deviceFlow: true,
+  },
+  "fine-grained": {
+    label: "repositories granted to a read-only fine-grained token",
+    scopes: [],
+    includePrivate: true,
+    deviceFlow: false,
+  },
+  private: {
+    label: "public and private repositories (user, repo)",
+    scopes: ["user", "repo"],
+    includePrivate: true,
+    deviceFlow: true,
+  },
+};
+
+export interface GitHubTokenInfo {
+  login: string;
+  // From X-OAuth-Scopes; undefined for tokens that don't report scopes
+  // (fine-grained personal access tokens, GitHub App tokens)
+  scopes?: string[];
+}
+
+/** Checks a token with `GET /user`. Returns null when GitHub rejects it. */
+export async function validateGitHubToken(
+  token: string,
+  apiCalls: ReturnType<typeof getApiCallsCounter>
+): Promise<GitHubTokenInfo | null> {
+  try {
+    const res = await axios.get(`${GITHUB_API}/user`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: "application/vnd.github+json",
+      },
+      timeout: 20000,
+    });
+    apiCalls.increment();
+    const header = res.headers["x-oauth-scopes"];
+    return {
+      login: res.data.login,
+      scopes:
+        typeof header === "string"
+          ? header
+              .split(",")
+              .map((s) => s.trim())
+              .filter(Boolean)
+          : undefined,
+    };
+  } catch (err: any) {
+    if (err.response?.status === 401) return null;
+    throw new Error(`Cannot validate the GitHub token: ${err.message}`);
+  }
+}
+
+/**
+ * Mismatches between a token and the scope profile, as warnings: missing
+ * scopes, a classic token where a fine-grained one is expected, or more
+ * access than the public profile will use.
+ */
+export function checkTokenScopes(
+  info: GitHubTokenInfo,
+  profile: ScopeProfile
+): string[] {
+  if (!info.scopes) return [];
+  const warnings: string[] = [];
+  const missing = SCOPE_PROFILES[profile].scopes.filter(
+    (s) => !info.scopes!.includes(s)
+  );
+  if (missing.length > 0) {
+    warnings.push(
+      `GitHub token lacks scope(s) ${missing.join(
+        ", "
+      )} — private repos may be skipped`
+    );
+  }
+  if (profile === "fine-grained") {
+    warnings.push(
+      `GitHub token is a classic token (scopes: ${
+        info.scopes.join(", ") || "none"
+      }), not a fine-grained one`
+    );
+  }
+  if (profile === "public" && info.scopes.includes("repo")) {
+    warnings.push(
+      "GitHub token grants private access; the public profile analyzes public repos only"
+    );
+  }
+  return warnings;
+}
+
+// ── Device flow ─────────────────────────────────────────────────────────────
+/**
+ * Signs in through the OAuth device flow. Polls at GitHub's interval, backs
+ * off on `slow_down` and stops on `expired_token` / `access_denied`.
+ */
+export async function runDeviceFlow(
+  clientId: string,
+  scopes: string[],
+  apiCalls: ReturnType<typeof getApiCallsCounter>
+): Promise<string> {
+  const codeRes = await axios.post(
+    "https://github.com/login/device/code",
+    // No scopes: the token can only read public data
+    { client_id: clientId, scope: scopes.join(" ") },
+    { headers: { Accept: "application/json" } }
+  );
+  apiCalls.increment();
+
+  const { device_code, user_code, verification_uri, interval, expires_in } =
+    codeRes.data;
+  if (!device_code) {
+    throw new Error(
+      `Device flow could not start: ${
+        codeRes.data.error_description || codeRes.data.error || "no code"
+      }`
+    );
+  }
+
+  console.log(`\n→ Go to: ${verification_uri}`);
+  console.log(`→ Code: ${user_code}\n`);
+
+  let intervalMs = (interval || 5) * 1000;
+  const deadline = Date.now() + expires_in * 1000;
+  while (Date.now() < deadline) {
+    await sleep(intervalMs);
+
+    let data: any;
+    try {
+      const tokenRes = await axios.post(
+        "https://github.com/login/oauth/access_token",
+        {
+          client_id: clientId,
+          device_code,
+          grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+        },
+        { headers: { Accept: "application/json" } }
+      );
+      apiCalls.increment();
+      data = tokenRes.data;
+    } catch (err: any) {
+      console.warn(`Polling error: ${err.message} — retrying`);
+      continue;
+    }
+
+    if (data.access_token) return data.access_token;
+    switch (data.error) {
+      case "authorization_pending":
+        continue;
+      case "slow_down":
+        // GitHub sends the new minimum interval; +5 s otherwise (RFC 8628)
+        intervalMs = data.interval ? data.interval * 1000 : intervalMs + 5000;
+        console.log(
+          `GitHub asked to poll slower, waiting ${intervalMs / 1000}s`
+        );
+        continue;
+      case "expired_token":
+        throw new Error(
+          'The device code expired before it was authorized — run "auth" again'
+        );
+      case "access_denied":
+        throw new Error("Authorization was denied on GitHub");
+      default:
+        throw new Error(
+          `Device flow failed: ${
+            data.error_description || data.error || "no token in the answer"
+          }`
+        );
+    }
+  }
+
+  throw new Error(
+    'The device code expired before it was authorized — run "auth" again'
+  );
+}
+
+// ── Revoke ──────────────────────────────────────────────────────────────────
+/**
+ * Revokes an OAuth app token on GitHub (`DELETE /applications/:id/token`),
+ * which needs the app's client secret. Returns false when it can't be done
+ * from here; a token GitHub no longer knows counts as revoked.
+ */
+export async function revokeGitHubToken(
+  token: string,
+  clientId: string | undefined,
+  clientSecret: string | undefined,
+  apiCalls: ReturnType<typeof getApiCallsCounter>
+): Promise<boolean> {
+  if (!clientId || !clientSecret) return false;
+  try {
+    await axios.delete(`${GITHUB_API}/applications/${clientId}/token`, {
+      auth: { username: clientId, password: clientSecret },
+      headers: { Accept: "application/vnd.github+json" },
+      data: { access_token: token },
+      timeout: 20000,
+    });
+    apiCalls.increment();
+    return true;
+  } catch (err: any) {
+    if (err.response?.status === 404 || err.response?.status === 422) {
+      return true;
+    }
+    throw new Error(`Cannot revoke the GitHub token: ${err.message}`);
+  }
+}
@@ -0,0 +1,750 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import * as path from "path";
+import { promisify } from "util";
+import { AppConfig } from "./config";
+import {
+  analyzeCommitDetail,
+  analyzeMessage,
+  PR_MESSAGE_WEIGHT,
+} from "./content";
+import { now } from "./fixtures";
+import {
+  createRequestScheduler,
+  mapWithConcurrency,
+  sampleEvenly,
+} from "./scheduler";
+import { parseManifest, selectManifestPaths } from "./manifests";
+import { latestDate, mergeRepoSummary, toRepoSummary } from "./repos";
+import { recordCandidate } from "./selection";
+import {
+  RepoAnalysis,
+  RepoCandidate,
+  RepoContribution,
+  RepoSummary,
+} from "./types";
+
+const sleep = promisify(setTimeout);
+
+// ── API call counter ─────────────────────────────────────────────────────────
+export function getApiCallsCounter() {
+  let count = 0;
+  return {
+    increment: () => count++,
+    get: () => count,
+  };
+}
+
+// ── Create GitHub client with rate limiting ─────────────────────────────────
+// Each rate-limit bucket (core / search / graphql) has its own scheduler:
+// at most GITHUB_CONCURRENCY requests in flight, and a low or exhausted limit
+// pauses only that bucket's queue until its reset time.
+type RateLimitBucket = "core" | "search" | "graphql";
+type GitHubRequestConfig = InternalAxiosRequestConfig & {
+  bucket?: RateLimitBucket;
+  retryCount?: number;
+};
+
+interface GitHubClientStats {
+  retried: number;
+  dropped: number;
+  droppedByReason: Record<string, number>;
+  // GraphQL responses that carried errors next to their data
+  partial: number;
+}
+const clientStats = new WeakMap<AxiosInstance, GitHubClientStats>();
+const newStats = (): GitHubClientStats => ({
+  retried: 0,
+  dropped: 0,
+  droppedByReason: {},
+  partial: 0,
+});
+
+const LOW_REMAINING: Record<RateLimitBucket, number> = {
+  core: 10,
+  search: 2,
+  graphql: 10,
+};
+
+// The search limit's window, for when /rate_limit gives no reset time
+const SEARCH_WINDOW_MS = 60_000;
+
+const bucketOf = (url = ""): RateLimitBucket =>
+  url.startsWith("/search/")
+    ? "search"
+    : url.startsWith("/graphql")
+    ? "graphql"
+    : "core";
+
+export function createGitHubClient(
+  token: string,
+  apiCalls: ReturnType<typeof getApiCallsCounter>,
+  config: AppConfig
+) {
+  const client = axios.create({
+    baseURL: "https://api.github.com",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Accept: "application/vnd.github.v3+json",
+    },
+  });
+  const schedulers = {
+    core: createRequestScheduler(config.githubConcurrency),
+    search: createRequestScheduler(Math.min(2, config.githubConcurrency)),
+    graphql: createRequestScheduler(config.githubConcurrency),
+  };
+  const stats = newStats();
+  clientStats.set(client, stats);
+
+  const pauseBucket = (
+    bucket: RateLimitBucket,
+    resumeAt: number,
+    why: string
+  ) => {
+    const wait = resumeAt - Date.now();
+    if (wait > 0 && schedulers[bucket].pauseUntil(resumeAt)) {
+      console.log(`${why} (${bucket}). Waiting ${Math.round(wait / 1000)}s...`);
+    }
+  };
+
+  const trackRateLimit = (headers: any, fallback: RateLimitBucket) => {
+    const resource = headers["x-ratelimit-resource"];
+    const bucket: RateLimitBucket =
+      resource === "search" || resource === "graphql" || resource === "core"
+        ? resource
+        : fallback;
+    const remaining = parseInt(headers["x-ratelimit-remaining"] ?? "", 10);
+    const reset = parseInt(headers["x-ratelimit-reset"] || "0", 10);
+    if (remaining < LOW_REMAINING[bucket] && reset > 0) {
+      pauseBucket(bucket, reset * 1000 + 2000, "Rate limit low");
+    }
+  };
+
+  // The search bucket (30 req/min) is checked via /rate_limit, which does not
+  // count against any limit: before the first search, and again once the
+  // window the last check reported has reset.
+  let searchChecked: Promise<void> | undefined;
+  let searchResetAt = 0;
+  const checkSearchLimit = () => {
+    if (!searchChecked || Date.now() >= searchResetAt) {
+      // Searches queued meanwhile wait for this check
+      searchResetAt = Infinity;
+      searchChecked = client
+        .get("/rate_limit")
+        .then((res) => {
+          const search = res.data.resources?.search;
+          searchResetAt = search?.reset
+            ? search.reset * 1000
+            : Date.now() + SEARCH_WINDOW_MS;
+          if (search && search.remaining < LOW_REMAINING.search) {
+            pauseBucket("search", searchResetAt + 2000, "Search limit low");
+          }
+        })
+        .catch(() => {
+          searchResetAt = Date.now() + SEARCH_WINDOW_MS;
+        });
+    }
+    return searchChecked;
+  };
+
+  client.interceptors.request.use(async (req: GitHubRequestConfig) => {
+    req.bucket ??= bucketOf(req.url);
+    if (req.bucket === "search") await checkSearchLimit();
+    await schedulers[req.bucket].acquire();
+    return req;
+  });
+
+  client.interceptors.response.use(
+    async (res) => {
+      const req = res.config as GitHubRequestConfig;
+      schedulers[req.bucket || "core"].release();
+      apiCalls.increment();
+      trackRateLimit(res.headers, req.bucket || "core");
+      return res;
+    },
+    async (err) => {
+      const req = err.config as GitHubRequestConfig | undefined;
+      if (!req?.bucket) return Promise.reject(err);
+      schedulers[req.bucket].release();
+      if (err.response) trackRateLimit(err.response.headers, req.bucket);
+
+      const retry = classifyFailure(err, (req.retryCount || 0) + 1);
+      if (!retry) return Promise.reject(err);
+
+      req.retryCount = (req.retryCount || 0) + 1;
+      if (req.retryCount > config.githubMaxRetries) {
+        stats.dropped++;
+        stats.droppedByReason[retry.reason] =
+          (stats.droppedByReason[retry.reason] || 0) + 1;
+        console.warn(
+          `GitHub request dropped after ${config.githubMaxRetries} retries: ${
+            req.method?.toUpperCase() || "GET"
+          } ${req.url} (${retry.reason})`
+        );
+        return Promise.reject(err);
+      }
+
+      stats.retried++;
+      console.log(
+        `GitHub ${retry.reason} on ${req.url} — retry ${req.retryCount}/${
+          config.githubMaxRetries
+        } in ${Math.round(retry.delayMs / 1000)}s`
+      );
+      if (retry.rateLimited) {
+        // Hold back the whole bucket, not just this request
+        pauseBucket(req.bucket, Date.now() + retry.delayMs, "Rate limited");
+      } else {
+        await sleep(retry.delayMs);
+      }
+      return client.request(req);
+    }
+  );
+
+  return client;
+}
+
+// Returns how long to wait before retrying, or null for failures that a retry
+// can't fix (404, 409, 422, ...).
+function classifyFailure(
+  err: any,
+  attempt: number
+): { reason: string; delayMs: number; rateLimited: boolean } | null {
+  const res = err.response;
+  const backoff = 1000 * 2 ** (attempt - 1) + Math.floor(Math.random() * 250);
+
+  if (!res) {
+    return {
+      reason: `network error ${err.code || ""}`.trim(),
+      delayMs: backoff,
+      rateLimited: false,
+    };
+  }
+
+  const status = res.status;
+  const headers = res.headers || {};
+  const message = String(res.data?.message || "").toLowerCase();
+  const retryAfter = parseInt(headers["retry-after"] ?? "", 10);
+  const exhausted = headers["x-ratelimit-remaining"] === "0";
+  const isRateLimit =
+    status === 429 ||
+    (status === 403 &&
+      (!Number.isNaN(retryAfter) ||
+        exhausted ||
+        message.includes("rate limit") ||
+        message.includes("abuse")));
+
+  if (isRateLimit) {
+    let delayMs: number;
+    if (!Number.isNaN(retryAfter)) {
+      delayMs = retryAfter * 1000;
+    } else if (exhausted && headers["x-ratelimit-reset"]) {
+      delayMs =
+        parseInt(headers["x-ratelimit-reset"], 10) * 1000 - Date.now() + 2000;
+    } else {
+      // Secondary limit without Retry-After: GitHub asks for at least a minute
+      delayMs = 60000 * attempt;
+    }
+    const reason = exhausted ? "rate limit exhausted" : "secondary rate limit";
+    return { reason, delayMs: Math.max(1000, delayMs), rateLimited: true };
+  }
+
+  if (status >= 500) {
+    return { reason: `HTTP ${status}`, delayMs: backoff, rateLimited: false };
+  }
+  return null;
+}
+
+export function getGitHubStats(github: AxiosInstance): GitHubClientStats {
+  return clientStats.get(github) || newStats();
+}
+
+export function logGitHubStats(github: AxiosInstance) {
+  const stats = getGitHubStats(github);
+  const reasons = Object.entries(stats.droppedByReason)
+    .map(([reason, count]) => `${reason}: ${count}`)
+    .join(", ");
+  console.log(
+    `GitHub requests retried: ${stats.retried} | dropped: ${stats.dropped}${
+      reasons ? ` (${reasons})` : ""
+    }${stats.partial ? ` | partial GraphQL responses: ${stats.partial}` : ""}`
+  );
+  if (stats.dropped > 0 || stats.partial > 0) {
+    console.warn(
+      "Some GitHub data could not be fetched — the analysis may be incomplete"
+    );
+  }
+}
+
+/**
+ * Logs a fetch the analysis has to go on without and counts it as dropped.
+ * Requests the retry interceptor gave up on were counted there already;
+ * this covers the ones it doesn't retry (403, 404, 422, GraphQL errors).
+ */
+export function recordFailedFetch(
+  github: AxiosInstance,
+  config: AppConfig,
+  what: string,
+  err: any
+) {
+  console.warn(`${what} fetch error: ${err.message}`);
+  const req = err.config as GitHubRequestConfig | undefined;
+  const stats = clientStats.get(github);
+  if (!stats || (req?.retryCount || 0) > config.githubMaxRetries) return;
+  const reason = err.response
+    ? `HTTP ${err.response.status}`
+    : err.type
+    ? `GraphQL ${err.type}`
+    : `network error ${err.code || ""}`.trim();
+  stats.dropped++;
+  stats.droppedByReason[reason] = (stats.droppedByReason[reason] || 0) + 1;
+}
+
+/**
+ * Logs the errors a GraphQL response carried next to its data (fields the
+ * token may not read, e.g. repos of an org that restricts access) and counts
+ * the response as partial. The caller goes on with the data that came back.
+ */
+export function recordPartialResponse(
+  github: AxiosInstance,
+  errors: { message: string; type?: string; path?: (string | number)[] }[]
+) {
+  for (const e of errors) {
+    const at = e.path ? ` at ${e.path.join(".")}` : "";
+    console.warn(`GraphQL partial error${at}: ${e.message}`);
+  }
+  const stats = clientStats.get(github);
+  if (stats) stats.partial++;
+}
+
+// ── Resolve any GitHub login (canonical casing, 404 → error) ────────────────
+export async function resolveLogin(
+  github: AxiosInstance,
+  login: string,
+  apiCalls: ReturnType<typeof getApiCallsCounter>
+): Promise<string> {
+  try {
+    const res = await github.get(`/users/${encodeURIComponent(login)}`);
+    apiCalls.increment();
+    return res.data.login;
+  } catch (err: any) {
+    if (err.response?.status === 404) {
+      throw new Error(`GitHub user @${login} not found`);
+    }
+    throw err;
+  }
+}
+
+// ── Discover repos ───────────────────────────────────────────────────────────
+// Search results carry a trimmed repo object: whatever fields are missing
+// stay unknown for the ranking.
+const repoMetadata = (r: any, username: string): Partial<RepoCandidate> => ({
+  owned: r.owner?.login
+    ? r.owner.login.toLowerCase() === username.toLowerCase()
+    : undefined,
+  fork: r.fork,
+  archived: r.archived,
+  stars: r.stargazers_count,
+  sizeKb: r.size,
+  pushedAt: r.pushed_at,
+  private: r.private,
+});
+
+export async function discoverRepos(
+  github: AxiosInstance,
+  username: string,
+  isViewer: boolean,
+  apiCalls: ReturnType<typeof getApiCallsCounter>,
+  searchCalls: ReturnType<typeof getApiCallsCounter>,
+  includePrivate = true
+) {
+  const repos = new Map<string, RepoCandidate>();
+
+  // Owned/member repos (private ones only visible for the token owner)
+  const reposPath = !isViewer
+    ? `/users/${encodeURIComponent(username)}/repos?type=all`
+    : includePrivate
+    ? "/user/repos?type=all"
+    : "/user/repos?visibility=public&affiliation=owner,collaborator,organization_member";
+  // Search hits carry no reliable visibility: ask for public ones only
+  const visibility = includePrivate ? "" : "+is:public";
+  let page = 1;
+  while (true) {
+    const res = await github.get(`${reposPath}&per_page=100&page=${page}`);
+    apiCalls.increment();
+    const data = res.data;
+    if (data.length === 0) break;
+    data.forEach((r: any) =>
+      recordCandidate(repos, r.full_name, repoMetadata(r, username))
+    );
+    page++;
+  }
+
+  // Commits search
+  page = 1;
+  while (true) {
+    try {
+      if (page * 100 > 1000) break;
+      const res = await github.get(
+        `/search/commits?q=author:${username}${visibility}&per_page=100&page=${page}`
+      );
+      searchCalls.increment();
+      const data = res.data;
+      if (data.items?.length === 0) break;
+      data.items.forEach((item: any) =>
+        recordCandidate(repos, item.repository.full_name, {
+          ...repoMetadata(item.repository, username),
+          commitHits: 1,
+        })
+      );
+      page++;
+    } catch (err: any) {
+      if (err.response?.status === 422) break;
+      throw err;
+    }
+  }
+
+  // PRs search
+  page = 1;
+  while (true) {
+    try {
+      if (page * 100 > 1000) break;
+      const res = await github.get(
+        `/search/issues?q=author:${username}+type:pr${visibility}&per_page=100&page=${page}`
+      );
+      searchCalls.increment();
+      const data = res.data;
+      if (data.items?.length === 0) break;
+      data.items.forEach((item: any) => {
+        const repo = item.repository_url.replace(
+          "https://api.github.com/repos/",
+          ""
+        );
+        recordCandidate(repos, repo, { prHits: 1 });
+      });
+      page++;
+    } catch (err: any) {
+      if (err.response?.status === 422) break;
+      throw err;
+    }
+  }
+
+  return repos;
+}
+
+// ── Analyze repos ────────────────────────────────────────────────────────────
+// With `previousRepos`, commits/PRs are only read back to the last seen
+// SHA / created_at and languages + dependencies are re-fetched only for repos
+// with new activity.
+// Repos and commit details run in parallel; the client's scheduler bounds the
+// number of requests actually in flight.
+export async function analyzeRepos(
+  github: AxiosInstance,
+  username: string,
+  repos: string[],
+  config: AppConfig,
+  apiCalls: ReturnType<typeof getApiCallsCounter>,
+  previousRepos?: Record<string, RepoSummary>,
+  analyzeOne: RepoAnalyzer = analyzeRepo
+) {
+  const results = await mapWithConcurrency(
+    repos,
+    config.githubConcurrency,
+    (repo) =>
+      analyzeOne(
+        github,
+        username,
+        repo,
+        config,
+        apiCalls,
+        previousRepos?.[repo]
+      )
+  );
+
+  const repoSummaries: Record<string, RepoSummary> = {};
+  const changedRepos: string[] = [];
+  results.forEach(({ summary, changed }, i) => {
+    repoSummaries[repos[i]] = summary;
+    if (changed) changedRepos.push(repos[i]);
+  });
+
+  return { repos: repoSummaries, changedRepos };
+}
+
+export async function analyzeRepo(
+  github: AxiosInstance,
+  username: string,
+  repo: string,
+  config: AppConfig,
+  apiCalls: ReturnType<typeof getApiCallsCounter>,
+  previous?: RepoSummary
+): Promise<{ summary: RepoSummary; changed: boolean }> {
+  console.log(`Analyzing: ${repo}`);
+  const analysis: RepoAnalysis = {
+    languages: previous?.languages || {},
+    dependencies: new Set(),
+    fileTypes: new Set(),
+    signals: {},
+    commitCount: 0,
+    prCount: 0,
+    evidence: [],
+  };
+  const markers = {
+    lastCommitSha: previous?.lastCommitSha,
+    lastPrUpdatedAt: previous?.lastPrUpdatedAt,
+  };
+
+  // Commits (newest first)
+  const newCommits: any[] = [];
+  try {
+    let page = 1;
+    let reachedKnown = false;
+    while (!reachedKnown) {
+      const res = await github.get(
+        `/repos/${repo}/commits?author=${username}&per_page=100&page=${page}`
+      );
+      apiCalls.increment();
+      const data = res.data;
+      if (data.length === 0) break;
+      if (page === 1) {
+        markers.lastCommitSha = data[0].sha;
+        analysis.lastActivityAt = data[0].commit?.author?.date;
+      }
+
+      for (const commit of data) {
+        if (commit.sha === previous?.lastCommitSha) {
+          reachedKnown = true;
+          break;
+        }
+        newCommits.push(commit);
+      }
+      page++;
+    }
+  } catch (err: any) {
+    if (err.response?.status === 409) {
+      console.log(`  ${repo} is empty — skipping commits`);
+    } else if ([403, 404].includes(err.response?.status)) {
+      // Fine-grained tokens only read the repos they were granted
+      console.log(`  ${repo} is not readable with this token — skipping`);
+    } else {
+      recordFailedFetch(github, config, `${repo} commits`, err);
+    }
+  }
+  analysis.commitCount = newCommits.length;
+  newCommits.forEach((commit) => analysis.evidence.push(commit.html_url));
+
+  // Commit details (file types, code signals) — capped per repo, sampled
+  await fetchCommitDetails(
+    github,
+    repo,
+    newCommits,
+    config,
+    apiCalls,
+    analysis
+  );
+
+  // PRs (most recently updated first): a PR merged, reopened or pushed to
+  // since the last run counts as new activity, but is only counted once
+  const knownEvidence = new Set(previous?.evidence);
+  let updatedPrs = 0;
+  try {
+    let page = 1;
+    let reachedKnown = false;
+    while (!reachedKnown) {
+      const res = await github.get(
+        `/repos/${repo}/pulls?creator=${username}&state=all&sort=updated&direction=desc&per_page=100&page=${page}`
+      );
+      apiCalls.increment();
+      const data = res.data;
+      if (data.length === 0) break;
+      if (page === 1) {
+        markers.lastPrUpdatedAt = data[0].updated_at;
+        analysis.lastActivityAt = latestDate(
+          analysis.lastActivityAt,
+          data[0].updated_at
+        );
+      }
+
+      for (const pr of data) {
+        if (
+          previous?.lastPrUpdatedAt &&
+          pr.updated_at <= previous.lastPrUpdatedAt
+        ) {
+          reachedKnown = true;
+          break;
+        }
+        if (knownEvidence.has(pr.html_url)) {
+          updatedPrs++;
+          continue;
+        }
+        analysis.prCount++;
+        analysis.evidence.push(pr.html_url);
+        analyzeMessage(pr.title || "", PR_MESSAGE_WEIGHT, analysis.signals);
+      }
+      page++;
+    }
+  } catch (err: any) {
+    recordFailedFetch(github, config, `${repo} PRs`, err);
+  }
+
+  const changed =
+    !previous ||
+    analysis.commitCount > 0 ||
+    analysis.prCount > 0 ||
+    updatedPrs > 0;
+  if (changed) {
+    // Languages
+    try {
+      const res = await github.get(`/repos/${repo}/languages`);
+      analysis.languages = res.data;
+    } catch (err: any) {
+      recordFailedFetch(github, config, `${repo} languages`, err);
+    }
+
+    analysis.contribution = await fetchRepoContribution(
+      github,
+      username,
+      repo,
+      apiCalls
+    );
+
+    // Dependencies (every manifest in the tree, monorepo packages included)
+    const manifests = await listManifestPaths(github, repo, config, apiCalls);
+    await mapWithConcurrency(
+      manifests,
+      config.githubConcurrency,
+      async (file) => {
+        try {
+          const res = await github.get(
+            `/repos/${repo}/contents/${encodeURI(file)}`
+          );
+          apiCalls.increment();
+          const content = Buffer.from(res.data.content, "base64").toString(
+            "utf-8"
+          );
+          parseManifest(file, content).forEach((d) =>
+            analysis.dependencies.add(d)
+          );
+        } catch (err: any) {
+          recordFailedFetch(github, config, `${repo}/${file}`, err);
+        }
+      }
+    );
+
+    const summary = toRepoSummary(analysis, markers);
+    return {
+      summary: previous ? mergeRepoSummary(previous, summary) : summary,
+      changed,
+    };
+  }
+
+  console.log(`  ${repo} has no new activity — reusing cached state`);
+  return {
+    summary: {
+      ...previous!,
+      checkedAt: new Date(now()).toISOString(),
+    },
+    changed,
+  };
+}
+
+export type RepoAnalyzer = typeof analyzeRepo;
+
+// ── Contribution facts (owner, fork, default-branch commits) ────────────────
+async function fetchRepoContribution(
+  github: AxiosInstance,
+  username: string,
+  repo: string,
+  apiCalls: ReturnType<typeof getApiCallsCounter>
+): Promise<RepoContribution | undefined> {
+  let contribution: RepoContribution;
+  try {
+    const res = await github.get(`/repos/${repo}`);
+    apiCalls.increment();
+    contribution = {
+      owned: res.data.owner?.login?.toLowerCase() === username.toLowerCase(),
+      fork: Boolean(res.data.fork),
+      private: Boolean(res.data.private),
+    };
+  } catch {
+    return undefined;
+  }
+
+  // One commit per page: the last page number is the commit count
+  try {
+    const res = await github.get(`/repos/${repo}/commits?per_page=1`);
+    apiCalls.increment();
+    const last = String(res.headers.link || "").match(
+      /[?&]page=(\d+)>;\s*rel="last"/
+    );
+    contribution.totalCommits = last ? parseInt(last[1], 10) : res.data.length;
+  } catch {
+    // Empty repos answer 409
+  }
+  return contribution;
+}
+
+// ── Commit details → file types + code signals (REST and GraphQL) ──────────
+export async function fetchCommitDetails(
+  github: AxiosInstance,
+  repo: string,
+  commits: { sha: string }[],
+  config: AppConfig,
+  apiCalls: ReturnType<typeof getApiCallsCounter>,
+  analysis: Pick<RepoAnalysis, "fileTypes" | "signals">
+) {
+  const detailed = sampleEvenly(commits, config.maxCommitDetailsPerRepo);
+  if (detailed.length < commits.length) {
+    console.log(
+      `  ${repo}: sampling ${detailed.length} / ${commits.length} commits for file details`
+    );
+  }
+  await mapWithConcurrency(
+    detailed,
+    config.githubConcurrency,
+    async (commit) => {
+      try {
+        const detail = await github.get(
+          `/repos/${repo}/commits/${commit.sha}`
+        );
+        apiCalls.increment();
+        for (const file of detail.data.files || []) {
+          const ext = path.extname(file.filename).slice(1);
+          if (ext) analysis.fileTypes.add(ext);
+        }
+        analyzeCommitDetail(detail.data, analysis.signals);
+      } catch (err: any) {
+        recordFailedFetch(github, config, `${repo} commit ${commit.sha}`, err);
+      }
+    }
+  );
+}
+
+// ── Dependency files ─────────────────────────────────────────────────────────
+// ── Manifest discovery (shared by REST and GraphQL collectors) ─────────────
+// One recursive tree listing finds manifests anywhere in the repo, so
+// monorepo packages (packages/*/package.json, services/*/go.mod) count too.
+export async function listManifestPaths(
+  github: AxiosInstance,
+  repo: string,
+  config: AppConfig,
+  apiCalls: ReturnType<typeof getApiCallsCounter>
+): Promise<string[]> {
+  try {
+    const res = await github.get(`/repos/${repo}/git/trees/HEAD`, {
+      params: { recursive: 1 },
+    });
+    apiCalls.increment();
+    const paths: string[] = (res.data.tree || [])
+      .filter((entry: any) => entry.type === "blob")
+      .map((entry: any) => entry.path);
+    const selected = selectManifestPaths(paths, config.maxManifestsPerRepo);
+    if (res.data.truncated) {
+      console.log(
+        `  ${repo}: file tree truncated, manifest list may be partial`
+      );
+    }
+    return selected;
+  } catch {
+    // Empty repos have no HEAD
+    return [];
+  }
+}
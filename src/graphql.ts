@@ -0,0 +1,421 @@
+import { AxiosInstance } from "axios";
+import { AppConfig } from "./config";
+import { analyzeMessage, PR_MESSAGE_WEIGHT } from "./content";
+import { now } from "./fixtures";
+import {
+  fetchCommitDetails,
+  getApiCallsCounter,
+  listManifestPaths,
+  recordFailedFetch,
+  recordPartialResponse,
+} from "./github";
+import { parseManifest } from "./manifests";
+import { latestDate, mergeRepoSummary, toRepoSummary } from "./repos";
+import { recordCandidate } from "./selection";
+import { RepoAnalysis, RepoCandidate, RepoSummary } from "./types";
+
+// ── Rate-limit points (GraphQL bucket) ──────────────────────────────────────
+// GraphQL is metered in points, not requests: every query asks for
+// `rateLimit { cost remaining resetAt }` and the totals are kept per client.
+interface GraphQLBudget {
+  used: number;
+  remaining?: number;
+  resetAt?: string;
+}
+const budgets = new WeakMap<AxiosInstance, GraphQLBudget>();
+
+const RATE_LIMIT_FIELDS = "rateLimit { cost remaining resetAt }";
+const MIN_REMAINING_POINTS = 50;
+
+export function getGraphQLBudget(github: AxiosInstance): GraphQLBudget {
+  if (!budgets.has(github)) budgets.set(github, { used: 0 });
+  return budgets.get(github)!;
+}
+
+async function graphql<T = any>(
+  github: AxiosInstance,
+  apiCalls: ReturnType<typeof getApiCallsCounter>,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<T> {
+  const budget = getGraphQLBudget(github);
+  if (
+    budget.remaining !== undefined &&
+    budget.remaining < MIN_REMAINING_POINTS &&
+    budget.resetAt
+  ) {
+    const wait = new Date(budget.resetAt).getTime() - Date.now() + 2000;
+    if (wait > 0) {
+      console.log(
+        `GraphQL points low (${budget.remaining}). Waiting ${Math.round(
+          wait / 1000
+        )}s...`
+      );
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+
+  const res = await github.post("/graphql", { query, variables });
+  apiCalls.increment();
+
+  const rateLimit = res.data.data?.rateLimit;
+  if (rateLimit) {
+    budget.used += rateLimit.cost;
+    budget.remaining = rateLimit.remaining;
+    budget.resetAt = rateLimit.resetAt;
+  }
+  // Errors next to data only cost the fields they name (null in the data),
+  // e.g. a restricted org's repos in contributionsCollection
+  const errors = res.data.errors ?? [];
+  if (!res.data.data) {
+    const err: any = new Error(
+      `GraphQL: ${errors[0]?.message ?? "response without data"}`
+    );
+    err.type = errors[0]?.type;
+    throw err;
+  }
+  if (errors.length) recordPartialResponse(github, errors);
+  return res.data.data as T;
+}
+
+// ── Viewer / user id ─────────────────────────────────────────────────────────
+const userIds = new Map<string, string>();
+
+async function getUserId(
+  github: AxiosInstance,
+  login: string,
+  apiCalls: ReturnType<typeof getApiCallsCounter>
+) {
+  const key = login.toLowerCase();
+  if (!userIds.has(key)) {
+    const data = await graphql(
+      github,
+      apiCalls,
+      `query($login: String!) { ${RATE_LIMIT_FIELDS} user(login: $login) { id } }`,
+      { login }
+    );
+    if (!data.user) throw new Error(`GitHub user @${login} not found`);
+    userIds.set(key, data.user.id);
+  }
+  return userIds.get(key)!;
+}
+
+// ── Discover repos ───────────────────────────────────────────────────────────
+// Ranking metadata comes with discovery at no extra cost (see selection.ts)
+const REPO_FIELDS =
+  "nameWithOwner isFork isArchived isPrivate stargazerCount diskUsage pushedAt owner { login }";
+
+const repoMetadata = (r: any, username: string): Partial<RepoCandidate> => ({
+  owned: r.owner?.login?.toLowerCase() === username.toLowerCase(),
+  fork: r.isFork,
+  archived: r.isArchived,
+  stars: r.stargazerCount,
+  sizeKb: r.diskUsage,
+  pushedAt: r.pushedAt,
+  private: r.isPrivate,
+});
+
+const DISCOVER_QUERY = `
+query($login: String!, $cursor: String, $owned: Boolean!, $collection: Boolean!, $privacy: RepositoryPrivacy) {
+  ${RATE_LIMIT_FIELDS}
+  user(login: $login) {
+    repositories(first: 100, after: $cursor, privacy: $privacy, ownerAffiliations: [OWNER, COLLABORATOR, ORGANIZATION_MEMBER]) @include(if: $owned) {
+      pageInfo { hasNextPage endCursor }
+      nodes { ${REPO_FIELDS} }
+    }
+    repositoriesContributedTo(first: 100, after: $cursor, privacy: $privacy, includeUserRepositories: true, contributionTypes: [COMMIT, PULL_REQUEST]) @skip(if: $owned) {
+      pageInfo { hasNextPage endCursor }
+      nodes { ${REPO_FIELDS} }
+    }
+    contributionsCollection @include(if: $collection) {
+      commitContributionsByRepository(maxRepositories: 100) {
+        repository { ${REPO_FIELDS} }
+        contributions { totalCount }
+      }
+      pullRequestContributionsByRepository(maxRepositories: 100) {
+        repository { ${REPO_FIELDS} }
+        contributions { totalCount }
+      }
+    }
+  }
+}`;
+
+export async function discoverReposGraphQL(
+  github: AxiosInstance,
+  username: string,
+  apiCalls: ReturnType<typeof getApiCallsCounter>,
+  includePrivate = true
+) {
+  const repos = new Map<string, RepoCandidate>();
+
+  // Owned/member repos, then repos contributed to (+ last year's contributions)
+  for (const owned of [true, false]) {
+    let cursor: string | null = null;
+    while (true) {
+      const data: any = await graphql(github, apiCalls, DISCOVER_QUERY, {
+        login: username,
+        cursor,
+        owned,
+        collection: !owned && !cursor,
+        // null = any visibility the token can see
+        privacy: includePrivate ? null : "PUBLIC",
+      });
+      const user = data.user;
+      if (!user) throw new Error(`GitHub user @${username} not found`);
+
+      // Repos the token may not read come back as null nodes (see graphql())
+      const conn = owned ? user.repositories : user.repositoriesContributedTo;
+      conn?.nodes.filter(Boolean).forEach((r: any) =>
+        recordCandidate(repos, r.nameWithOwner, repoMetadata(r, username))
+      );
+      if (user.contributionsCollection) {
+        const collection = user.contributionsCollection;
+        const readable = (byRepo: any[] | null) =>
+          (byRepo ?? []).filter((c) => c?.repository);
+        readable(collection.commitContributionsByRepository).forEach((c) =>
+          recordCandidate(repos, c.repository.nameWithOwner, {
+            ...repoMetadata(c.repository, username),
+            commitHits: c.contributions.totalCount,
+          })
+        );
+        readable(collection.pullRequestContributionsByRepository).forEach(
+          (c) =>
+            recordCandidate(repos, c.repository.nameWithOwner, {
+              ...repoMetadata(c.repository, username),
+              prHits: c.contributions.totalCount,
+            })
+        );
+      }
+
+      if (!conn?.pageInfo.hasNextPage) break;
+      cursor = conn.pageInfo.endCursor;
+    }
+  }
+
+  return repos;
+}
+
+// ── Analyze one repo (same contract as the REST analyzeRepo) ────────────────
+const COMMITS_QUERY = `
+query($owner: String!, $name: String!, $authorId: ID!, $cursor: String) {
+  ${RATE_LIMIT_FIELDS}
+  repository(owner: $owner, name: $name) {
+    defaultBranchRef {
+      target {
+        ... on Commit {
+          history(first: 100, after: $cursor, author: { id: $authorId }) {
+            pageInfo { hasNextPage endCursor }
+            nodes { oid url authoredDate }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+const PRS_QUERY = `
+query($search: String!, $cursor: String) {
+  ${RATE_LIMIT_FIELDS}
+  search(query: $search, type: ISSUE, first: 100, after: $cursor) {
+    pageInfo { hasNextPage endCursor }
+    nodes { ... on PullRequest { url updatedAt title } }
+  }
+}`;
+
+// Manifest paths come from the REST tree listing (GraphQL can't list a tree
+// recursively); their contents are fetched here as aliased blobs.
+const repoDetailsQuery = (manifests: string[]) => `
+query($owner: String!, $name: String!) {
+  ${RATE_LIMIT_FIELDS}
+  repository(owner: $owner, name: $name) {
+    isFork
+    isPrivate
+    owner { login }
+    defaultBranchRef {
+      target { ... on Commit { history(first: 1) { totalCount } } }
+    }
+    languages(first: 50) { edges { size node { name } } }
+    ${manifests
+      .map(
+        (file, i) =>
+          `dep${i}: object(expression: ${JSON.stringify(
+            `HEAD:${file}`
+          )}) { ... on Blob { text } }`
+      )
+      .join("\n    ")}
+  }
+}`;
+
+export async function analyzeRepoGraphQL(
+  github: AxiosInstance,
+  username: string,
+  repo: string,
+  config: AppConfig,
+  apiCalls: ReturnType<typeof getApiCallsCounter>,
+  previous?: RepoSummary
+): Promise<{ summary: RepoSummary; changed: boolean }> {
+  console.log(`Analyzing (GraphQL): ${repo}`);
+  const [owner, name] = repo.split("/");
+  const analysis: RepoAnalysis = {
+    languages: previous?.languages || {},
+    dependencies: new Set(),
+    fileTypes: new Set(),
+    signals: {},
+    commitCount: 0,
+    prCount: 0,
+    evidence: [],
+  };
+  const markers = {
+    lastCommitSha: previous?.lastCommitSha,
+    lastPrUpdatedAt: previous?.lastPrUpdatedAt,
+  };
+
+  // Commits (newest first)
+  const newCommits: { sha: string; url: string }[] = [];
+  try {
+    const authorId = await getUserId(github, username, apiCalls);
+    let cursor: string | null = null;
+    let reachedKnown = false;
+    while (!reachedKnown) {
+      const data: any = await graphql(github, apiCalls, COMMITS_QUERY, {
+        owner,
+        name,
+        authorId,
+        cursor,
+      });
+      const history = data.repository?.defaultBranchRef?.target?.history;
+      if (!history || history.nodes.length === 0) break;
+      if (!cursor) {
+        markers.lastCommitSha = history.nodes[0].oid;
+        analysis.lastActivityAt = history.nodes[0].authoredDate;
+      }
+
+      for (const commit of history.nodes) {
+        if (commit.oid === previous?.lastCommitSha) {
+          reachedKnown = true;
+          break;
+        }
+        newCommits.push({ sha: commit.oid, url: commit.url });
+      }
+      if (!history.pageInfo.hasNextPage) break;
+      cursor = history.pageInfo.endCursor;
+    }
+  } catch (err: any) {
+    recordFailedFetch(github, config, `${repo} commits`, err);
+  }
+  analysis.commitCount = newCommits.length;
+  newCommits.forEach((commit) => analysis.evidence.push(commit.url));
+
+  // GraphQL has no per-file commit data: file types and code signals come
+  // from REST details
+  await fetchCommitDetails(
+    github,
+    repo,
+    newCommits,
+    config,
+    apiCalls,
+    analysis
+  );
+
+  // PRs authored by the user (most recently updated first, see analyzeRepo)
+  const knownEvidence = new Set(previous?.evidence);
+  let updatedPrs = 0;
+  try {
+    let cursor: string | null = null;
+    let reachedKnown = false;
+    while (!reachedKnown) {
+      const data: any = await graphql(github, apiCalls, PRS_QUERY, {
+        search: `repo:${repo} is:pr author:${username} sort:updated-desc`,
+        cursor,
+      });
+      const prs = data.search.nodes.filter((n: any) => n?.url);
+      if (prs.length === 0) break;
+      if (!cursor) {
+        markers.lastPrUpdatedAt = prs[0].updatedAt;
+        analysis.lastActivityAt = latestDate(
+          analysis.lastActivityAt,
+          prs[0].updatedAt
+        );
+      }
+
+      for (const pr of prs) {
+        if (
+          previous?.lastPrUpdatedAt &&
+          pr.updatedAt <= previous.lastPrUpdatedAt
+        ) {
+          reachedKnown = true;
+          break;
+        }
+        if (knownEvidence.has(pr.url)) {
+          updatedPrs++;
+          continue;
+        }
+        analysis.prCount++;
+        analysis.evidence.push(pr.url);
+        analyzeMessage(pr.title || "", PR_MESSAGE_WEIGHT, analysis.signals);
+      }
+      if (!data.search.pageInfo.hasNextPage) break;
+      cursor = data.search.pageInfo.endCursor;
+    }
+  } catch (err: any) {
+    recordFailedFetch(github, config, `${repo} PRs`, err);
+  }
+
+  const changed =
+    !previous ||
+    analysis.commitCount > 0 ||
+    analysis.prCount > 0 ||
+    updatedPrs > 0;
+  if (changed) {
+    // Languages, contribution facts + dependency manifests in one query
+    const manifests = await listManifestPaths(github, repo, config, apiCalls);
+    try {
+      const data: any = await graphql(
+        github,
+        apiCalls,
+        repoDetailsQuery(manifests),
+        { owner, name }
+      );
+      const repository = data.repository;
+      // Null when the token may not read the repo (logged by graphql())
+      if (repository) {
+        analysis.contribution = {
+          owned:
+            repository.owner.login.toLowerCase() === username.toLowerCase(),
+          fork: repository.isFork,
+          private: repository.isPrivate,
+          totalCommits:
+            repository.defaultBranchRef?.target?.history?.totalCount,
+        };
+        analysis.languages = {};
+        repository.languages.edges.forEach((e: any) => {
+          analysis.languages[e.node.name] = e.size;
+        });
+        manifests.forEach((file, i) => {
+          const text = repository[`dep${i}`]?.text;
+          if (!text) return;
+          parseManifest(file, text).forEach((d) =>
+            analysis.dependencies.add(d)
+          );
+        });
+      }
+    } catch (err: any) {
+      recordFailedFetch(github, config, `${repo} details`, err);
+    }
+
+    const summary = toRepoSummary(analysis, markers);
+    return {
+      summary: previous ? mergeRepoSummary(previous, summary) : summary,
+      changed,
+    };
+  }
+
+  console.log(`  ${repo} has no new activity — reusing cached state`);
+  return {
+    summary: {
+      ...previous!,
+      checkedAt: new Date(now()).toISOString(),
+    },
+    changed,
+  };
+}
@@ -0,0 +1,231 @@
+import crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { now } from "./fixtures";
+import { CachedUserAnalysis, Recommendation, RunRecord } from "./types";
+
+// ── Layout ──────────────────────────────────────────────────────────────────
+// <history dir>/runs/<run id>.json        one file per run, never rewritten
+// <history dir>/snapshots/<hash>.json     analyses the runs were based on,
+//                                         stored once per distinct content
+// Run ids are UTC timestamps ("2026-10-19T08-15-02-123Z"), so sorting the
+// file names sorts the runs.
+export const RUN_HISTORY_SCHEMA_VERSION = 1;
+
+const runsDir = (dir: string) => path.join(dir, "runs");
+const snapshotsDir = (dir: string) => path.join(dir, "snapshots");
+export const getSnapshotFile = (dir: string, sha256: string) =>
+  path.join(snapshotsDir(dir), `${sha256.slice(0, 16)}.json`);
+
+const toRunId = (timestamp: string) => timestamp.replace(/[:.]/g, "-");
+
+// ── Record ──────────────────────────────────────────────────────────────────
+/**
+ * Stores one run plus the analysis snapshot it used (skipped when an
+ * identical snapshot is already stored). Returns the run id.
+ */
+export async function recordRun(
+  dir: string,
+  analysis: CachedUserAnalysis,
+  run: Omit<
+    RunRecord,
+    "schemaVersion" | "id" | "timestamp" | "username" | "analysis"
+  >
+): Promise<string> {
+  const snapshot = JSON.stringify(analysis, null, 2);
+  const sha256 = crypto.createHash("sha256").update(snapshot).digest("hex");
+  const snapshotFile = getSnapshotFile(dir, sha256);
+  await fs.mkdir(snapshotsDir(dir), { recursive: true });
+  await fs.writeFile(snapshotFile, snapshot, { flag: "wx" }).catch((err) => {
+    if (err.code !== "EEXIST") throw err;
+  });
+
+  const timestamp = new Date(now()).toISOString();
+  const record: RunRecord = {
+    schemaVersion: RUN_HISTORY_SCHEMA_VERSION,
+    id: toRunId(timestamp),
+    timestamp,
+    username: analysis.username,
+    analysis: {
+      sha256,
+      timestamp: analysis.timestamp,
+      schemaVersion: analysis.schemaVersion,
+      analyzedRepos: analysis.analyzedRepos,
+      totalCommits: analysis.totalCommits,
+      totalPRs: analysis.totalPRs,
+    },
+    ...run,
+  };
+  await fs.mkdir(runsDir(dir), { recursive: true });
+  await fs.writeFile(
+    path.join(runsDir(dir), `${record.id}.json`),
+    JSON.stringify(record, null, 2)
+  );
+  return record.id;
+}
+
+// ── Read ────────────────────────────────────────────────────────────────────
+/** All readable runs, oldest first. */
+export async function loadRuns(dir: string): Promise<RunRecord[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(runsDir(dir));
+  } catch {
+    return [];
+  }
+
+  const runs: RunRecord[] = [];
+  for (const file of files.filter((f) => f.endsWith(".json")).sort()) {
+    try {
+      const run = JSON.parse(
+        await fs.readFile(path.join(runsDir(dir), file), "utf-8")
+      );
+      if (run.schemaVersion === RUN_HISTORY_SCHEMA_VERSION) runs.push(run);
+    } catch {
+      console.warn(`Skipping unreadable run ${file}`);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Finds a run by reference: "latest", "previous", a run id (or a unique
+ * prefix of one), or a date / ISO time meaning the last run at or before it.
+ */
+export function resolveRun(runs: RunRecord[], ref: string): RunRecord {
+  if (runs.length === 0) throw new Error("No runs recorded yet");
+  if (ref === "latest") return runs[runs.length - 1];
+  if (ref === "previous") {
+    if (runs.length < 2) throw new Error("Only one run recorded so far");
+    return runs[runs.length - 2];
+  }
+
+  const byId = runs.filter((r) => r.id.startsWith(ref));
+  if (byId.length === 1) return byId[0];
+
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(ref)
+    ? Date.parse(`${ref}T23:59:59.999Z`)
+    : Date.parse(ref);
+  if (Number.isNaN(date)) {
+    throw new Error(
+      byId.length > 1
+        ? `Run "${ref}" is ambiguous: ${byId.map((r) => r.id).join(", ")}`
+        : `No run "${ref}" (expected latest, previous, a run id or a date)`
+    );
+  }
+  const before = runs.filter((r) => Date.parse(r.timestamp) <= date);
+  if (before.length === 0) throw new Error(`No run at or before ${ref}`);
+  return before[before.length - 1];
+}
+
+const formatModel = (run: RunRecord) =>
+  run.llm
+    ? `${run.llm.provider}${run.llm.model ? ` / ${run.llm.model}` : ""}${
+        run.llm.consensusRuns ? ` ×${run.llm.consensusRuns}` : ""
+      }`
+    : "rules only";
+
+export function formatRunList(runs: RunRecord[]) {
+  return runs
+    .map((r) => {
+      const top = r.recommendations
+        .slice(0, 3)
+        .map((s) => `${s.name} (${s.score})`)
+        .join(", ");
+      return `${r.id}  ${r.command.padEnd(9)} ${formatModel(r)} — ${
+        r.recommendations.length
+      } skills${top ? `: ${top}` : ""}`;
+    })
+    .join("\n");
+}
+
+// ── Diff ────────────────────────────────────────────────────────────────────
+export interface SkillChange {
+  id: string;
+  name: string;
+  from?: number;
+  to?: number;
+  // to − from, both present
+  delta?: number;
+}
+export interface RunDiff {
+  from: { id: string; model: string; analysis: RunRecord["analysis"] };
+  to: { id: string; model: string; analysis: RunRecord["analysis"] };
+  gained: SkillChange[];
+  lost: SkillChange[];
+  changed: SkillChange[];
+  unchanged: number;
+}
+
+export function diffRuns(from: RunRecord, to: RunRecord): RunDiff {
+  const byId = (recs: Recommendation[]) => new Map(recs.map((r) => [r.id, r]));
+  const before = byId(from.recommendations);
+  const after = byId(to.recommendations);
+
+  const gained = to.recommendations
+    .filter((r) => !before.has(r.id))
+    .map((r) => ({ id: r.id, name: r.name, to: r.score }));
+  const lost = from.recommendations
+    .filter((r) => !after.has(r.id))
+    .map((r) => ({ id: r.id, name: r.name, from: r.score }));
+  const kept = to.recommendations
+    .filter((r) => before.has(r.id))
+    .map((r) => {
+      const score = before.get(r.id)!.score;
+      return {
+        id: r.id,
+        name: r.name,
+        from: score,
+        to: r.score,
+        delta: r.score - score,
+      };
+    });
+  const changed = kept
+    .filter((c) => c.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  const side = (run: RunRecord) => ({
+    id: run.id,
+    model: formatModel(run),
+    analysis: run.analysis,
+  });
+  return {
+    from: side(from),
+    to: side(to),
+    gained: gained.sort((a, b) => b.to - a.to),
+    lost: lost.sort((a, b) => b.from - a.from),
+    changed,
+    unchanged: kept.length - changed.length,
+  };
+}
+
+export function formatRunDiff(diff: RunDiff) {
+  const { from, to } = diff;
+  const analysisLine =
+    from.analysis.sha256 === to.analysis.sha256
+      ? `Analysis: unchanged (${to.analysis.timestamp})`
+      : `Analysis: ${from.analysis.timestamp} → ${to.analysis.timestamp} (repos ${from.analysis.analyzedRepos} → ${to.analysis.analyzedRepos}, commits ${from.analysis.totalCommits} → ${to.analysis.totalCommits}, PRs ${from.analysis.totalPRs} → ${to.analysis.totalPRs})`;
+  const section = (title: string, lines: string[]) =>
+    lines.length ? [`${title} (${lines.length}):`, ...lines] : [];
+
+  return [
+    `Runs ${from.id} → ${to.id}`,
+    from.model === to.model
+      ? `Model: ${to.model}`
+      : `Model: ${from.model} → ${to.model}`,
+    analysisLine,
+    "",
+    ...section("Gained", diff.gained.map((c) => `  + ${c.name} (${c.to})`)),
+    ...section("Lost", diff.lost.map((c) => `  - ${c.name} (${c.from})`)),
+    ...section(
+      "Score changes",
+      diff.changed.map(
+        (c) =>
+          `  ~ ${c.name}: ${c.from} → ${c.to} (${c.delta! > 0 ? "+" : ""}${
+            c.delta
+          })`
+      )
+    ),
+    `Unchanged: ${diff.unchanged}`,
+  ].join("\n");
+}
@@ -0,0 +1,155 @@
+import { LlmRecommendation } from "./types";
+
+// ── Structured LLM output ───────────────────────────────────────────────────
+// The model answers with { "recommendations": [{ name, score, reason }] }.
+// The same shape is sent as a JSON schema (response_format / Ollama `format`)
+// where the provider supports it, and every answer is validated here; the
+// validation errors are what the repair prompt sends back to the model.
+
+// Keys models use instead of ours, accepted as equivalent
+const FIELD_ALIASES: Record<keyof LlmRecommendation, string[]> = {
+  name: ["skill", "skill_name", "skillName"],
+  score: ["confidence"],
+  reason: ["why", "info", "explanation"],
+};
+const LIST_KEYS = ["recommendations", "skills", "results"];
+const MAX_REPORTED_ERRORS = 10;
+
+export function recommendationsJsonSchema(skillNames: string[]) {
+  return {
+    type: "object",
+    properties: {
+      recommendations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string", enum: skillNames },
+            score: { type: "integer", minimum: 0, maximum: 100 },
+            reason: { type: "string" },
+          },
+          required: ["name", "score", "reason"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["recommendations"],
+    additionalProperties: false,
+  };
+}
+
+export interface LlmOutputResult {
+  recommendations: LlmRecommendation[];
+  // Empty when the whole answer is valid
+  errors: string[];
+}
+
+// JSON text from an answer that may be fenced or wrapped in prose
+function extractJson(raw: string): unknown {
+  const text = raw
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  try {
+    return JSON.parse(text);
+  } catch (err: any) {
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf("]"), text.lastIndexOf("}"));
+    if (start === -1 || end <= start) throw err;
+    return JSON.parse(text.slice(start, end + 1));
+  }
+}
+
+function pickField(
+  item: Record<string, unknown>,
+  field: keyof LlmRecommendation
+) {
+  const key = [field, ...FIELD_ALIASES[field]].find((k) => k in item);
+  return key === undefined ? undefined : item[key];
+}
+
+/**
+ * Parses and validates one model answer. Valid items are returned even when
+ * others fail, so the last repair attempt can still use them.
+ */
+export function parseLlmRecommendations(
+  raw: string,
+  skillNames: string[]
+): LlmOutputResult {
+  let value: unknown;
+  try {
+    value = extractJson(raw);
+  } catch (err: any) {
+    return { recommendations: [], errors: [`invalid JSON: ${err.message}`] };
+  }
+
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === "object"
+    ? LIST_KEYS.map((k) => (value as Record<string, unknown>)[k]).find(
+        Array.isArray
+      )
+    : undefined;
+  if (!list) {
+    return {
+      recommendations: [],
+      errors: ['expected an object with a "recommendations" array'],
+    };
+  }
+
+  const allowed = new Map(skillNames.map((n) => [n.trim().toLowerCase(), n]));
+  const recommendations: LlmRecommendation[] = [];
+  const errors: string[] = [];
+  list.forEach((item: unknown, i: number) => {
+    const at = `recommendations[${i}]`;
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      errors.push(`${at}: expected an object`);
+      return;
+    }
+    const fields = item as Record<string, unknown>;
+    const name = pickField(fields, "name");
+    const score = pickField(fields, "score");
+    const reason = pickField(fields, "reason");
+    const itemErrors: string[] = [];
+
+    const skill =
+      typeof name === "string"
+        ? allowed.get(name.trim().toLowerCase())
+        : undefined;
+    if (typeof name !== "string" || !name.trim()) {
+      itemErrors.push(`${at}.name: expected a skill name`);
+    } else if (!skill) {
+      itemErrors.push(`${at}.name: "${name}" is not in the skill list`);
+    }
+    const numeric = typeof score === "string" ? Number(score) : score;
+    if (typeof numeric !== "number" || !(numeric >= 0 && numeric <= 100)) {
+      itemErrors.push(`${at}.score: expected a number from 0 to 100`);
+    }
+    if (typeof reason !== "string" || !reason.trim()) {
+      itemErrors.push(`${at}.reason: expected a non-empty string`);
+    }
+
+    if (itemErrors.length > 0) errors.push(...itemErrors);
+    else if (!recommendations.some((r) => r.name === skill)) {
+      recommendations.push({
+        name: skill!,
+        score: Math.round(numeric as number),
+        reason: (reason as string).trim(),
+      });
+    }
+  });
+  if (list.length === 0) errors.push("recommendations: expected at least one");
+
+  return { recommendations, errors };
+}
+
+export function buildRepairPrompt(errors: string[]) {
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS);
+  const more = errors.length - shown.length;
+  return `Your previous answer did not match the required format:
+${shown.map((e) => `- ${e}`).join("\n")}${
+    more > 0 ? `\n- ... ${more} more error(s)` : ""
+  }
+
+Answer again with ONLY the corrected JSON object {"recommendations": [{"name", "score", "reason"}]}. Use names exactly as listed and keep reasons to 1–2 sentences.`;
+}
@@ -0,0 +1,346 @@
+import axios from "axios";
+import * as fs from "fs";
+import { Ollama } from "ollama";
+import OpenAI from "openai";
+import { AppConfig } from "./config";
+import { isReplaying, withLlmFixture } from "./fixtures";
+import { LlmMessage } from "./types";
+
+// ── Provider interface ──────────────────────────────────────────────────────
+// Every provider owns its config check, model default, timeout and token
+// limit. The rest of the app only goes through callLLM / validateLlmConfig,
+// so a new provider is one more entry in LLM_PROVIDERS.
+export interface LlmRequest {
+  messages: LlmMessage[];
+  // JSON schema of the expected answer (see llm-schema.ts)
+  schema: object;
+  // Skill names the answer may use (the schema's name enum)
+  candidates: string[];
+  model: string;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+export interface LlmProvider {
+  name: string;
+  label: string;
+  // Env var holding the model; --model wins over it
+  modelEnv?: string;
+  defaultModel?: string;
+  timeoutMs: number;
+  maxTokens: number;
+  // Runs on this machine: prompts never leave it (PRIVATE_DATA_POLICY)
+  isLocal(config: AppConfig): boolean;
+  validate(config: AppConfig): void;
+  complete(request: LlmRequest, config: AppConfig): Promise<string>;
+}
+
+const SCHEMA_NAME = "skill_recommendations";
+
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "[::1]", "0.0.0.0"];
+
+function isLocalUrl(url: string | undefined) {
+  try {
+    return LOCAL_HOSTS.includes(new URL(url || "").hostname);
+  } catch {
+    return false;
+  }
+}
+
+// ── OpenAI-compatible chat completions ──────────────────────────────────────
+async function completeOpenAiCompatible(
+  baseURL: string,
+  apiKey: string,
+  request: LlmRequest
+): Promise<string> {
+  const client = new OpenAI({ apiKey, baseURL, timeout: request.timeoutMs });
+  const body = {
+    model: request.model,
+    messages: request.messages,
+    temperature: 0.1,
+    max_tokens: request.maxTokens,
+    stream: false as const,
+  };
+
+  let completion: OpenAI.Chat.ChatCompletion;
+  try {
+    completion = await client.chat.completions.create({
+      ...body,
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: SCHEMA_NAME,
+          schema: request.schema as Record<string, unknown>,
+          strict: true,
+        },
+      },
+    });
+  } catch (err: any) {
+    // Not every routed model supports JSON schemas; the answer is still
+    // validated (and repaired) either way
+    if (err.status !== 400) throw err;
+    console.warn(
+      `${request.model} rejected structured output (${err.message}) — retrying without it`
+    );
+    completion = await client.chat.completions.create(body);
+  }
+
+  return completion.choices[0]?.message?.content || "";
+}
+
+// ── Ollama native API (format = JSON schema) ────────────────────────────────
+async function completeOllama(
+  host: string,
+  headers: Record<string, string>,
+  request: LlmRequest
+): Promise<string> {
+  const ollama = new Ollama({
+    host,
+    headers,
+    fetch: (input, init) =>
+      fetch(input, { ...init, signal: AbortSignal.timeout(request.timeoutMs) }),
+  });
+  const response = await ollama.chat({
+    model: request.model,
+    messages: request.messages,
+    format: request.schema,
+    options: { temperature: 0.1, num_predict: request.maxTokens },
+    stream: false,
+  });
+  return response.message.content || "";
+}
+
+// ── Anthropic-compatible Messages API (forced tool call) ────────────────────
+async function completeAnthropic(
+  baseUrl: string,
+  apiKey: string,
+  request: LlmRequest
+): Promise<string> {
+  const res = await axios.post(
+    `${baseUrl}/v1/messages`,
+    {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: 0.1,
+      messages: request.messages,
+      tools: [
+        {
+          name: SCHEMA_NAME,
+          description: "Report the recommended skills",
+          input_schema: request.schema,
+        },
+      ],
+      tool_choice: { type: "tool", name: SCHEMA_NAME },
+    },
+    {
+      headers: { "x-api-key": apiKey, "anthropic-version": "2023-06-01" },
+      timeout: request.timeoutMs,
+    }
+  );
+  const content: any[] = res.data?.content || [];
+  const toolUse = content.find((c) => c.type === "tool_use");
+  if (toolUse) return JSON.stringify(toolUse.input);
+  return content
+    .filter((c) => c.type === "text")
+    .map((c) => c.text)
+    .join("");
+}
+
+// ── Mock (offline, deterministic) ───────────────────────────────────────────
+// Answers with MOCK_LLM_RESPONSE_FILE verbatim when set (e.g. to exercise the
+// repair retries), otherwise recommends the first shortlisted skills citing
+// the first link of the prompt.
+function completeMock(request: LlmRequest, config: AppConfig): string {
+  if (config.mockLlmResponseFile) {
+    return fs.readFileSync(config.mockLlmResponseFile, "utf-8");
+  }
+  const prompt = request.messages[0]?.content || "";
+  const link = prompt.match(/https:\/\/github\.com\/[^\s,]+/)?.[0];
+  return JSON.stringify({
+    recommendations: request.candidates.slice(0, 6).map((name, i) => ({
+      name,
+      score: 90 - i * 5,
+      reason: `Mock recommendation for ${name}.${link ? ` See ${link}.` : ""}`,
+    })),
+  });
+}
+
+// ── Registry ────────────────────────────────────────────────────────────────
+export const LLM_PROVIDERS: LlmProvider[] = [
+  {
+    name: "huggingface_router",
+    label: "Hugging Face router",
+    modelEnv: "HF_MODEL",
+    defaultModel: "openai/gpt-oss-120b:groq",
+    timeoutMs: 120_000,
+    maxTokens: 1600,
+    isLocal: () => false,
+    validate(config) {
+      if (!config.huggingfaceToken) {
+        throw new Error("HUGGINGFACE_TOKEN is required for huggingface_router");
+      }
+    },
+    complete: (request, config) =>
+      completeOpenAiCompatible(
+        "https://router.huggingface.co/v1",
+        config.huggingfaceToken!,
+        request
+      ),
+  },
+  {
+    name: "ollama",
+    label: "local Ollama",
+    modelEnv: "OLLAMA_MODEL",
+    defaultModel: "gpt-oss:120b",
+    // Local models on CPU can take minutes
+    timeoutMs: 600_000,
+    maxTokens: 1600,
+    isLocal: (config) => isLocalUrl(config.ollamaUrl),
+    validate() {},
+    // The key is ignored by Ollama but required by the client
+    complete: (request, config) =>
+      completeOpenAiCompatible(config.ollamaUrl, "ollama", request),
+  },
+  {
+    name: "ollama_cloud",
+    label: "Ollama Cloud",
+    modelEnv: "OLLAMA_MODEL",
+    defaultModel: "gpt-oss:120b",
+    timeoutMs: 180_000,
+    maxTokens: 1600,
+    isLocal: () => false,
+    validate(config) {
+      if (!config.ollamaApiKey) {
+        throw new Error("OLLAMA_API_KEY is required for ollama_cloud");
+      }
+    },
+    complete: (request, config) =>
+      completeOllama(
+        "https://api.ollama.com",
+        { Authorization: `Bearer ${config.ollamaApiKey}` },
+        request
+      ),
+  },
+  {
+    name: "openai_compatible",
+    label: "OpenAI-compatible endpoint",
+    modelEnv: "OPENAI_MODEL",
+    timeoutMs: 120_000,
+    maxTokens: 1600,
+    isLocal: (config) => isLocalUrl(config.openaiBaseUrl),
+    validate(config) {
+      if (!config.openaiBaseUrl) {
+        throw new Error("OPENAI_BASE_URL is required for openai_compatible");
+      }
+    },
+    complete: (request, config) =>
+      completeOpenAiCompatible(
+        config.openaiBaseUrl!,
+        config.openaiApiKey || "none",
+        request
+      ),
+  },
+  {
+    name: "anthropic",
+    label: "Anthropic-compatible endpoint",
+    modelEnv: "ANTHROPIC_MODEL",
+    timeoutMs: 120_000,
+    maxTokens: 2000,
+    isLocal: (config) => isLocalUrl(config.anthropicBaseUrl),
+    validate(config) {
+      if (!config.anthropicApiKey) {
+        throw new Error("ANTHROPIC_API_KEY is required for anthropic");
+      }
+    },
+    complete: (request, config) =>
+      completeAnthropic(
+        config.anthropicBaseUrl,
+        config.anthropicApiKey!,
+        request
+      ),
+  },
+  {
+    name: "mock",
+    label: "mock LLM",
+    defaultModel: "mock",
+    timeoutMs: 1000,
+    maxTokens: 1600,
+    isLocal: () => true,
+    validate(config) {
+      if (
+        config.mockLlmResponseFile &&
+        !fs.existsSync(config.mockLlmResponseFile)
+      ) {
+        throw new Error(
+          `MOCK_LLM_RESPONSE_FILE not found: ${config.mockLlmResponseFile}`
+        );
+      }
+    },
+    complete: async (request, config) => completeMock(request, config),
+  },
+];
+
+export const LLM_PROVIDER_NAMES = LLM_PROVIDERS.map((p) => p.name);
+
+export function getLlmProvider(name: string): LlmProvider {
+  const provider = LLM_PROVIDERS.find((p) => p.name === name);
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM provider: ${name} (expected ${LLM_PROVIDER_NAMES.join(
+        " | "
+      )})`
+    );
+  }
+  return provider;
+}
+
+/** --model, then the provider's model env var, then its default. */
+export function resolveLlmModel(config: AppConfig): string | undefined {
+  const provider = getLlmProvider(config.llmProvider);
+  return (
+    config.llmModel ||
+    (provider.modelEnv && process.env[provider.modelEnv]) ||
+    provider.defaultModel
+  );
+}
+
+export function validateLlmConfig(config: AppConfig) {
+  if (config.rulesOnly) return;
+  const provider = getLlmProvider(config.llmProvider);
+  if (!resolveLlmModel(config)) {
+    throw new Error(
+      `${provider.name} has no default model — set ${provider.modelEnv} or pass --model`
+    );
+  }
+  // Replayed answers need no credentials
+  if (!isReplaying()) provider.validate(config);
+}
+
+export async function callLLM(
+  messages: LlmMessage[],
+  config: AppConfig,
+  schema: object,
+  candidates: string[]
+): Promise<string> {
+  const provider = getLlmProvider(config.llmProvider);
+  const request: LlmRequest = {
+    messages,
+    schema,
+    candidates,
+    model: resolveLlmModel(config)!,
+    maxTokens: config.llmMaxTokens ?? provider.maxTokens,
+    timeoutMs: config.llmTimeoutSeconds
+      ? config.llmTimeoutSeconds * 1000
+      : provider.timeoutMs,
+  };
+  console.log(`Querying ${provider.label}: ${request.model}`);
+  return withLlmFixture(
+    {
+      provider: provider.name,
+      model: request.model,
+      messages: request.messages,
+      schema: request.schema,
+    },
+    () => provider.complete(request, config)
+  );
+}
@@ -0,0 +1,410 @@
+import * as path from "path";
+
+// ── Dependency manifests ────────────────────────────────────────────────────
+// Every parser turns one manifest file into normalized package names tagged
+// with their ecosystem. Tagged names are stored as "ecosystem:name" strings
+// (e.g. "npm:react", "pypi:fastapi", "maven:org.springframework:spring-web")
+// so they stay JSON-safe and can be deduplicated in a Set.
+export type Ecosystem =
+  | "npm"
+  | "pypi"
+  | "maven"
+  | "go"
+  | "cargo"
+  | "rubygems"
+  | "packagist"
+  | "nuget"
+  | "pub"
+  | "docker";
+
+export interface ManifestParser {
+  ecosystem: Ecosystem;
+  /** Matches the file name (not the full path) of a manifest. */
+  matches: (fileName: string) => boolean;
+  parse: (content: string) => string[];
+}
+
+export function tagDependency(ecosystem: Ecosystem, name: string) {
+  return `${ecosystem}:${name}`;
+}
+
+/** "maven:org.slf4j:slf4j-api" → ecosystem "maven", name "org.slf4j:slf4j-api" */
+export function splitDependency(dep: string) {
+  const i = dep.indexOf(":");
+  // Untagged names come from caches written before the manifest parsers
+  if (i < 0) return { ecosystem: undefined, name: dep };
+  return { ecosystem: dep.slice(0, i) as Ecosystem, name: dep.slice(i + 1) };
+}
+
+// ── Name normalization ──────────────────────────────────────────────────────
+// PEP 503: case-insensitive, runs of "-", "_" and "." are equivalent
+const normalizePython = (name: string) =>
+  name.toLowerCase().replace(/[-_.]+/g, "-");
+
+const unique = (names: string[]) =>
+  Array.from(new Set(names.map((n) => n.trim()).filter(Boolean)));
+
+// ── Minimal TOML / YAML helpers ─────────────────────────────────────────────
+// Manifests only need section headers, keys and string arrays, so a full
+// parser would be overkill.
+function tomlSections(content: string): Map<string, string[]> {
+  const sections = new Map<string, string[]>([["", []]]);
+  let current = "";
+  for (const raw of content.split("\n")) {
+    const line = raw.replace(/\s+#.*$/, "").trim();
+    if (!line || line.startsWith("#")) continue;
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/);
+    if (header) {
+      current = header[1].replace(/["']/g, "");
+      if (!sections.has(current)) sections.set(current, []);
+      continue;
+    }
+    sections.get(current)!.push(line);
+  }
+  return sections;
+}
+
+const tomlKeys = (lines: string[] = []) =>
+  lines
+    .map((l) => l.match(/^["']?([A-Za-z0-9_.\-]+)["']?\s*=/)?.[1])
+    .filter((k): k is string => !!k);
+
+/** Strings inside `key = [ ... ]` (the array may span several lines). */
+function tomlStringArray(lines: string[] = [], key: string): string[] {
+  const opener = new RegExp(`^${key}\\s*=\\s*\\[`);
+  const start = lines.findIndex((l) => opener.test(l));
+  if (start < 0) return [];
+  let text = "";
+  for (const line of lines.slice(start)) {
+    text += line + "\n";
+    if (/\]\s*,?$/.test(line.replace(/"[^"]*"|'[^']*'/g, ""))) break;
+  }
+  return Array.from(text.matchAll(/"([^"]+)"|'([^']+)'/g)).map(
+    (m) => m[1] ?? m[2]
+  );
+}
+
+/** Keys one level below a top-level YAML mapping (`dependencies:`). */
+function yamlChildKeys(content: string, parent: string): string[] {
+  const keys: string[] = [];
+  let inside = false;
+  let indent = -1;
+  for (const raw of content.split("\n")) {
+    if (!raw.trim() || raw.trim().startsWith("#")) continue;
+    if (!/^\s/.test(raw)) {
+      inside = raw.startsWith(`${parent}:`);
+      indent = -1;
+      continue;
+    }
+    if (!inside) continue;
+    const level = raw.length - raw.trimStart().length;
+    if (indent < 0) indent = level;
+    if (level !== indent) continue;
+    const key = raw.trim().match(/^["']?([A-Za-z0-9_.\-]+)["']?\s*:/)?.[1];
+    if (key) keys.push(key);
+  }
+  return keys;
+}
+
+// ── Parsers ─────────────────────────────────────────────────────────────────
+/** "fastapi[all]>=0.115; python_version > '3.8'" → "fastapi" */
+const pythonRequirementName = (spec: string) =>
+  spec.match(/^\s*([A-Za-z0-9][A-Za-z0-9._\-]*)/)?.[1];
+
+const packageJson: ManifestParser = {
+  ecosystem: "npm",
+  matches: (f) => f === "package.json",
+  parse: (content) => {
+    const json = JSON.parse(content);
+    return unique(
+      [
+        "dependencies",
+        "devDependencies",
+        "peerDependencies",
+        "optionalDependencies",
+      ].flatMap((key) => Object.keys(json[key] || {}))
+    ).map((n) => n.toLowerCase());
+  },
+};
+
+const requirementsTxt: ManifestParser = {
+  ecosystem: "pypi",
+  matches: (f) => /^requirements([-_.][\w.-]+)?\.(txt|in)$/.test(f),
+  parse: (content) =>
+    unique(
+      content
+        .split("\n")
+        .map((l) => l.replace(/\s+#.*$/, "").trim())
+        // Skip comments, options (-r, -e, --index-url) and direct URLs
+        .filter((l) => l && !/^[#-]/.test(l) && !l.includes("://"))
+        .map((l) => pythonRequirementName(l) || "")
+    ).map(normalizePython),
+};
+
+const pyprojectToml: ManifestParser = {
+  ecosystem: "pypi",
+  matches: (f) => f === "pyproject.toml",
+  parse: (content) => {
+    const sections = tomlSections(content);
+    const names: string[] = [];
+    // PEP 621
+    const project = sections.get("project");
+    names.push(...tomlStringArray(project, "dependencies"));
+    const extras = sections.get("project.optional-dependencies");
+    tomlKeys(extras).forEach((group) =>
+      names.push(...tomlStringArray(extras, group))
+    );
+    // Poetry
+    sections.forEach((lines, name) => {
+      if (
+        /^tool\.poetry(\.group\.[^.]+)?\.(dev-)?dependencies$/.test(name)
+      ) {
+        names.push(...tomlKeys(lines));
+      }
+    });
+    return unique(
+      names
+        .map((spec) => pythonRequirementName(spec) || "")
+        .filter((n) => n.toLowerCase() !== "python")
+    ).map(normalizePython);
+  },
+};
+
+const pipfile: ManifestParser = {
+  ecosystem: "pypi",
+  matches: (f) => f === "Pipfile",
+  parse: (content) => {
+    const sections = tomlSections(content);
+    return unique([
+      ...tomlKeys(sections.get("packages")),
+      ...tomlKeys(sections.get("dev-packages")),
+    ]).map(normalizePython);
+  },
+};
+
+const pomXml: ManifestParser = {
+  ecosystem: "maven",
+  matches: (f) => f === "pom.xml",
+  parse: (content) => {
+    // Only <dependency> blocks: the project's own coordinates, <parent> and
+    // <plugin> entries also carry an <artifactId> but aren't dependencies
+    const blocks = content.match(/<dependency>[\s\S]*?<\/dependency>/g) || [];
+    return unique(
+      blocks.map((block) => {
+        const groupId = block.match(/<groupId>\s*(.*?)\s*<\/groupId>/)?.[1];
+        const artifactId = block.match(
+          /<artifactId>\s*(.*?)\s*<\/artifactId>/
+        )?.[1];
+        if (!artifactId) return "";
+        return groupId && !groupId.includes("${")
+          ? `${groupId}:${artifactId}`
+          : artifactId;
+      })
+    );
+  },
+};
+
+const GRADLE_CONFIGURATIONS =
+  /^(implementation|api|compile|runtime|compileOnly|runtimeOnly|kapt|ksp|annotationProcessor|classpath|\w+(Implementation|Api|CompileOnly|RuntimeOnly))$/;
+
+const buildGradle: ManifestParser = {
+  ecosystem: "maven",
+  matches: (f) => f === "build.gradle" || f === "build.gradle.kts",
+  parse: (content) => {
+    const names: string[] = [];
+    // implementation 'g:a:v' / implementation("g:a:v")
+    for (const m of content.matchAll(
+      /\b(\w+)\s*\(?\s*["']([\w.\-]+):([\w.\-]+)(?::[^"']*)?["']/g
+    )) {
+      if (GRADLE_CONFIGURATIONS.test(m[1])) names.push(`${m[2]}:${m[3]}`);
+    }
+    // implementation group: 'g', name: 'a'
+    for (const m of content.matchAll(
+      /\b(\w+)\s*\(?\s*group\s*[:=]\s*["']([\w.\-]+)["']\s*,\s*name\s*[:=]\s*["']([\w.\-]+)["']/g
+    )) {
+      if (GRADLE_CONFIGURATIONS.test(m[1])) names.push(`${m[2]}:${m[3]}`);
+    }
+    return unique(names);
+  },
+};
+
+const goMod: ManifestParser = {
+  ecosystem: "go",
+  matches: (f) => f === "go.mod",
+  parse: (content) => {
+    const names: string[] = [];
+    let inBlock = false;
+    for (const raw of content.split("\n")) {
+      const line = raw.trim();
+      if (/^require\s*\($/.test(line)) {
+        inBlock = true;
+        continue;
+      }
+      if (inBlock && line === ")") {
+        inBlock = false;
+        continue;
+      }
+      // Indirect requirements are transitive, not something the user chose
+      if (line.includes("// indirect")) continue;
+      const spec = inBlock ? line : line.match(/^require\s+(.+)$/)?.[1];
+      const module = spec?.match(/^([^\s/][^\s]*)\s+v\S+/)?.[1];
+      if (module) names.push(module);
+    }
+    return unique(names);
+  },
+};
+
+const cargoToml: ManifestParser = {
+  ecosystem: "cargo",
+  matches: (f) => f === "Cargo.toml",
+  parse: (content) => {
+    const names: string[] = [];
+    tomlSections(content).forEach((lines, name) => {
+      // [dependencies], [dev-dependencies], [target.'cfg(..)'.dependencies],
+      // [workspace.dependencies] ...
+      if (/(^|\.)(dev-|build-)?dependencies$/.test(name)) {
+        names.push(...tomlKeys(lines));
+      }
+      // [dependencies.serde]
+      const table = name.match(/(?:^|\.)(?:dev-|build-)?dependencies\.(.+)$/);
+      if (table) names.push(table[1]);
+    });
+    return unique(names).map((n) => n.toLowerCase().replace(/_/g, "-"));
+  },
+};
+
+const gemfile: ManifestParser = {
+  ecosystem: "rubygems",
+  matches: (f) => f === "Gemfile",
+  parse: (content) =>
+    unique(
+      Array.from(content.matchAll(/^\s*gem\s+["']([^"']+)["']/gm)).map(
+        (m) => m[1]
+      )
+    ).map((n) => n.toLowerCase()),
+};
+
+const composerJson: ManifestParser = {
+  ecosystem: "packagist",
+  matches: (f) => f === "composer.json",
+  parse: (content) => {
+    const json = JSON.parse(content);
+    return unique(
+      [
+        ...Object.keys(json.require || {}),
+        ...Object.keys(json["require-dev"] || {}),
+      ]
+        // Platform requirements (php, ext-mbstring, lib-curl) aren't packages
+        .filter((n) => n.includes("/"))
+    ).map((n) => n.toLowerCase());
+  },
+};
+
+const csproj: ManifestParser = {
+  ecosystem: "nuget",
+  matches: (f) => /\.(cs|fs|vb)proj$/.test(f),
+  parse: (content) =>
+    unique(
+      Array.from(
+        content.matchAll(/<PackageReference\s+[^>]*Include\s*=\s*"([^"]+)"/g)
+      ).map((m) => m[1])
+    ).map((n) => n.toLowerCase()),
+};
+
+const pubspecYaml: ManifestParser = {
+  ecosystem: "pub",
+  matches: (f) => f === "pubspec.yaml",
+  parse: (content) =>
+    unique([
+      ...yamlChildKeys(content, "dependencies"),
+      ...yamlChildKeys(content, "dev_dependencies"),
+    ]),
+};
+
+const dockerfile: ManifestParser = {
+  ecosystem: "docker",
+  matches: (f) => /^(Dockerfile|Containerfile)(\..+)?$|\.dockerfile$/i.test(f),
+  parse: (content) => {
+    const stages = new Set<string>();
+    const images: string[] = [];
+    for (const m of content.matchAll(
+      /^\s*FROM\s+(?:--\S+\s+)*(\S+)(?:\s+AS\s+(\S+))?/gim
+    )) {
+      const image = m[1];
+      // Later stages built FROM an earlier stage, or from nothing
+      if (!stages.has(image.toLowerCase()) && image !== "scratch") {
+        const name = image
+          .replace(/@.*$/, "")
+          .replace(/:[^/]*$/, "")
+          .replace(/^(docker\.io\/)?(library\/)?/, "");
+        if (!name.includes("$")) images.push(name.toLowerCase());
+      }
+      if (m[2]) stages.add(m[2].toLowerCase());
+    }
+    return unique(images);
+  },
+};
+
+export const MANIFEST_PARSERS: ManifestParser[] = [
+  packageJson,
+  requirementsTxt,
+  pyprojectToml,
+  pipfile,
+  pomXml,
+  buildGradle,
+  goMod,
+  cargoToml,
+  gemfile,
+  composerJson,
+  csproj,
+  pubspecYaml,
+  dockerfile,
+];
+
+// ── Lookup ──────────────────────────────────────────────────────────────────
+// Vendored or generated trees contain other people's manifests
+const IGNORED_DIRS = new Set([
+  "node_modules",
+  "vendor",
+  "third_party",
+  "bower_components",
+  "site-packages",
+  "Pods",
+  "dist",
+  "build",
+  "target",
+  ".git",
+]);
+
+export function findManifestParser(filePath: string) {
+  if (filePath.split("/").some((segment) => IGNORED_DIRS.has(segment))) {
+    return undefined;
+  }
+  const fileName = path.posix.basename(filePath);
+  return MANIFEST_PARSERS.find((p) => p.matches(fileName));
+}
+
+/** Tagged names from one manifest; unknown files or bad content give []. */
+export function parseManifest(filePath: string, content: string): string[] {
+  const parser = findManifestParser(filePath);
+  if (!parser) return [];
+  try {
+    return parser.parse(content).map((n) => tagDependency(parser.ecosystem, n));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Picks the manifests worth fetching from a repo's file list: shallowest
+ * first (the root manifest describes the project best), at most `max`.
+ */
+export function selectManifestPaths(paths: string[], max: number): string[] {
+  return paths
+    .filter((p) => findManifestParser(p))
+    .sort(
+      (a, b) =>
+        a.split("/").length - b.split("/").length || a.localeCompare(b)
+    )
+    .slice(0, max);
+}
@@ -0,0 +1,135 @@
+import * as http from "http";
+
+// ── Local mock of the Topcoder API ──────────────────────────────────────────
+// Serves the endpoints the CLI uses, with in-memory state, so `import` (and
+// the skills download) can be exercised without touching the dev API:
+//
+//   npm run mock:topcoder
+//   TOPCODER_API_URL=http://localhost:4010/v5 TOPCODER_TOKEN=mock npm start -- import ...
+//
+// MOCK_TOPCODER_TOKEN, when set, is the only bearer token accepted for writes.
+const PORT = parseInt(process.env.MOCK_TOPCODER_PORT || "4010", 10);
+const TOKEN = process.env.MOCK_TOPCODER_TOKEN;
+
+const SKILLS = [
+  "JavaScript",
+  "TypeScript",
+  "Python",
+  "React.js",
+  "Node.js",
+  "Docker",
+  "FastAPI",
+  "Amazon Web Services",
+  "PostgreSQL",
+  "GraphQL",
+].map((name, i) => ({
+  id: `00000000-0000-4000-8000-${String(i + 1).padStart(12, "0")}`,
+  name,
+}));
+
+// userId → skills on the profile
+const memberSkills = new Map<string, any[]>();
+const userIdOf = (handle: string) =>
+  String(
+    10000000 +
+      Array.from(handle.toLowerCase()).reduce(
+        (h, c) => (h * 31 + c.charCodeAt(0)) % 9000000,
+        0
+      )
+  );
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: http.IncomingMessage): Promise<any> {
+  let data = "";
+  for await (const chunk of req) data += chunk;
+  return data ? JSON.parse(data) : {};
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+  const parts = url.pathname.replace(/^\/v5\/?/, "").split("/");
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  try {
+    // GET /standardized-skills/skills?page=&perPage=
+    if (
+      req.method === "GET" &&
+      url.pathname.endsWith("/standardized-skills/skills")
+    ) {
+      const perPage = parseInt(url.searchParams.get("perPage") || "100", 10);
+      const page = parseInt(url.searchParams.get("page") || "1", 10);
+      const items = SKILLS.slice((page - 1) * perPage, page * perPage);
+      if (page * perPage < SKILLS.length) {
+        res.setHeader("x-next-page", String(page + 1));
+      }
+      return send(res, 200, items);
+    }
+
+    // GET /members/:handle
+    if (req.method === "GET" && parts[0] === "members" && parts[1]) {
+      const handle = decodeURIComponent(parts[1]);
+      return send(res, 200, { handle, userId: Number(userIdOf(handle)) });
+    }
+
+    // GET|POST /standardized-skills/user-skills/:userId
+    if (
+      parts[0] === "standardized-skills" &&
+      parts[1] === "user-skills" &&
+      parts[2]
+    ) {
+      const userId = parts[2];
+      if (req.method === "GET") {
+        if (!memberSkills.has(userId)) {
+          return send(res, 404, { message: "No skills for this member" });
+        }
+        return send(res, 200, memberSkills.get(userId));
+      }
+      if (req.method === "POST") {
+        const auth = req.headers.authorization || "";
+        if (
+          !auth.startsWith("Bearer ") ||
+          (TOKEN && auth !== `Bearer ${TOKEN}`)
+        ) {
+          return send(res, 401, { message: "Invalid token" });
+        }
+        const body = await readBody(req);
+        if (!Array.isArray(body.skills)) {
+          return send(res, 400, { message: '"skills" must be an array' });
+        }
+        // Validate the whole payload first: a rejected request adds nothing
+        const current = memberSkills.get(userId) || [];
+        const added: any[] = [];
+        for (const skill of body.skills) {
+          const known = SKILLS.find((s) => s.id === skill.id);
+          if (!known) {
+            return send(res, 400, { message: `Unknown skill ${skill.id}` });
+          }
+          if ([...current, ...added].some((s) => s.id === skill.id)) {
+            return send(res, 409, {
+              message: `Skill ${skill.id} already added`,
+            });
+          }
+          added.push({
+            ...known,
+            levelId: skill.levelId,
+            evidence: skill.evidence || [],
+          });
+        }
+        memberSkills.set(userId, [...current, ...added]);
+        return send(res, 201, memberSkills.get(userId));
+      }
+    }
+
+    send(res, 404, { message: `No mock for ${req.method} ${url.pathname}` });
+  } catch (err: any) {
+    send(res, 500, { message: err.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Topcoder API on http://localhost:${PORT}/v5`);
+});
@@ -0,0 +1,97 @@
+import crypto from "crypto";
+import { AppConfig } from "./config";
+import { getLlmProvider } from "./llm";
+import { CachedUserAnalysis, PromptRedaction } from "./types";
+
+// ── Name patterns ───────────────────────────────────────────────────────────
+// Case-insensitive whole-name matches: "acme/api" must not hit "acme/api-v2"
+// or "acme/api.js", but does hit "acme/api." at the end of a sentence.
+export const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const namePattern = (
+  name: string,
+  lookahead = "(?![\\w-]|\\.[\\w-])"
+) => new RegExp(`(?<![\\w.-])${escapeRegExp(name)}${lookahead}`, "gi");
+
+// ── Prompt redaction ────────────────────────────────────────────────────────
+// Before prompting, private repo names ("acme/api") and the orgs owning them
+// ("acme/…", "@acme/pkg") are replaced by aliases; the model's reasons are
+// mapped back afterwards, so reports and verification see the real names.
+//   alias: repo-1, org-1, … (numbered per prompt)
+//   hash:  repo-3f9c0a1b2d, org-… (stable across runs for the same name)
+// Public repos and the user's own login are left as they are.
+export interface PromptRedactor {
+  redact(text: string): string;
+  restore(text: string): string;
+  // Private names replaced (repos + orgs)
+  names: number;
+}
+
+const hashName = (kind: string, name: string) =>
+  `${kind}-${crypto
+    .createHash("sha256")
+    .update(name.toLowerCase())
+    .digest("hex")
+    .slice(0, 10)}`;
+
+export function createPromptRedactor(
+  analysis: CachedUserAnalysis,
+  mode: PromptRedaction
+): PromptRedactor {
+  const repos = mode === "off" ? [] : analysis.visibility.privateRepos;
+  // Lower-cased owner → owner as spelled in its first repo
+  const owners = new Map<string, string>();
+  for (const repo of repos) {
+    const owner = repo.split("/")[0];
+    const key = owner.toLowerCase();
+    if (key !== analysis.username.toLowerCase() && !owners.has(key)) {
+      owners.set(key, owner);
+    }
+  }
+  const orgs = Array.from(owners.values());
+  const alias = (kind: string, name: string, i: number) =>
+    mode === "hash" ? hashName(kind, name) : `${kind}-${i + 1}`;
+
+  // Whole repo names first, then org prefixes ("acme/", "@acme/") only, so an
+  // org named like a word or a skill ("go") is not replaced elsewhere
+  const rules = [
+    ...repos.map((repo, i) => ({
+      pattern: namePattern(repo),
+      name: repo,
+      alias: alias("repo", repo, i),
+    })),
+    ...orgs.map((org, i) => ({
+      pattern: namePattern(org, "(?=/)"),
+      name: org,
+      alias: alias("org", org, i),
+    })),
+  ];
+
+  return {
+    redact: (text) =>
+      rules.reduce((t, r) => t.replace(r.pattern, r.alias), text),
+    restore: (text) =>
+      rules.reduce((t, r) => t.replace(namePattern(r.alias), r.name), text),
+    names: rules.length,
+  };
+}
+
+// ── Private data policy ─────────────────────────────────────────────────────
+/**
+ * PRIVATE_DATA_POLICY=local-only: an analysis that includes private repos is
+ * only ever sent to a provider running on this machine. Throws before any
+ * prompt is built otherwise.
+ */
+export function assertPromptAllowed(
+  analysis: CachedUserAnalysis,
+  config: AppConfig
+) {
+  const privateRepos = analysis.visibility.privateRepos.length;
+  if (config.privateDataPolicy !== "local-only" || privateRepos === 0) return;
+  const provider = getLlmProvider(config.llmProvider);
+  if (provider.isLocal(config)) return;
+  throw new Error(
+    `PRIVATE_DATA_POLICY=local-only: the analysis of @${analysis.username} covers ${privateRepos} private repo(s) and ${provider.label} is not local — use a local provider (ollama, openai_compatible on localhost), --rules-only or --scope-profile public`
+  );
+}
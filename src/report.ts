@@ -0,0 +1,611 @@
+import * as path from "path";
+import { formatConsensus } from "./consensus";
+import { formatSignals, rankSignals } from "./content";
+import { escapeRegExp, namePattern } from "./privacy";
+import { now } from "./fixtures";
+import { formatRepoBreakdown } from "./repos";
+import { formatRepoSelection } from "./selection";
+import {
+  AnalysisVisibility,
+  CachedUserAnalysis,
+  RankedRepo,
+  Recommendation,
+  RepoSelection,
+  RepoSummary,
+  ScopeProfile,
+} from "./types";
+
+// ── Report data (what every formatter renders) ──────────────────────────────
+// The JSON format is this structure as-is; its schema is published in
+// schemas/skills-report.schema.json and versioned with REPORT_SCHEMA_VERSION.
+export const REPORT_SCHEMA_VERSION = 4;
+
+export interface ReportRun {
+  totalApiCalls: number;
+  elapsedSeconds: number;
+  llmProvider?: string;
+  llmModel?: string;
+  collector?: string;
+  rulesOnly?: boolean;
+  consensusRuns?: number;
+}
+
+export interface ReportRepo {
+  name: string;
+  private: boolean;
+  // Contribution weight (see contribution.ts)
+  weight: number;
+  commits: number;
+  pullRequests: number;
+  languages: Record<string, number>;
+  dependencies: string[];
+  fileTypes: string[];
+  // Strongest code signals, "kind:value" → lines changed
+  signals: Record<string, number>;
+  evidenceCount: number;
+}
+
+export interface ReportRecommendation
+  extends Omit<Recommendation, "verification"> {
+  source: NonNullable<Recommendation["source"]>;
+  evidence: string[];
+  dependencies: string[];
+  unverified: string[];
+}
+
+export interface ReportVisibility {
+  profile: ScopeProfile;
+  // Repos the scope profile could reach
+  tier: "public" | "public+private";
+  privateRepos: number;
+  // Private repo names replaced, their links dropped
+  redacted: boolean;
+}
+
+export interface ReportData {
+  schemaVersion: number;
+  generatedAt: string;
+  username: string;
+  analyzedAt: string;
+  run: ReportRun;
+  visibility: ReportVisibility;
+  summary: {
+    reposDiscovered: number;
+    reposAnalyzed: number;
+    commits: number;
+    pullRequests: number;
+    evidenceLinks: number;
+  };
+  // Contribution-weighted, strongest first
+  rankings: {
+    languages: { name: string; share: number }[];
+    dependencies: { name: string; weight: number }[];
+  };
+  recommendations: ReportRecommendation[];
+  repos: ReportRepo[];
+  // How the analyzed repos were picked (missing for older caches)
+  selection?: RepoSelection;
+}
+
+const EVIDENCE_LINK = /https:\/\/github\.com\/[^\s)"'<>\]]+/g;
+
+/** GitHub links cited in a reason, without trailing punctuation. */
+export function extractEvidenceLinks(text: string): string[] {
+  const links = (text.match(EVIDENCE_LINK) || []).map((l) =>
+    l.replace(/[.,;:]+$/, "")
+  );
+  return Array.from(new Set(links));
+}
+
+const toReportRepo = (
+  [name, r]: [string, RepoSummary],
+  weights: Record<string, number>,
+  visibility: AnalysisVisibility
+): ReportRepo => ({
+  name,
+  private: visibility.privateRepos.includes(name),
+  weight: weights[name] ?? 1,
+  commits: r.commitCount,
+  pullRequests: r.prCount,
+  languages: r.languages,
+  dependencies: r.dependencies,
+  fileTypes: r.fileTypes,
+  signals: Object.fromEntries(rankSignals(r.signals, 20)),
+  evidenceCount: r.evidence.length,
+});
+
+export function buildReportData(
+  username: string,
+  recommendations: Recommendation[],
+  analysis: CachedUserAnalysis,
+  run: ReportRun
+): ReportData {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date(now()).toISOString(),
+    username,
+    analyzedAt: analysis.timestamp,
+    run,
+    visibility: {
+      profile: analysis.visibility.profile,
+      tier:
+        analysis.visibility.profile === "public" ? "public" : "public+private",
+      privateRepos: analysis.visibility.privateRepos.length,
+      redacted: false,
+    },
+    summary: {
+      reposDiscovered: analysis.reposCount,
+      reposAnalyzed: analysis.analyzedRepos,
+      commits: analysis.totalCommits,
+      pullRequests: analysis.totalPRs,
+      evidenceLinks: analysis.allEvidenceLinks.length,
+    },
+    rankings: {
+      languages: analysis.langPercentages.flatMap((line) => {
+        const match = line.match(/^(.+):\s*([\d.]+)%$/);
+        return match ? [{ name: match[1], share: parseFloat(match[2]) }] : [];
+      }),
+      dependencies: analysis.dependencyWeights.slice(0, 20),
+    },
+    recommendations: [...recommendations]
+      .sort((a, b) => b.score - a.score)
+      .map(({ verification, ...r }) => ({
+        ...r,
+        source: r.source ?? "llm",
+        // Unchecked reasons (rules, older saves) cite analysis links only
+        evidence: verification?.links ?? extractEvidenceLinks(r.info),
+        dependencies: verification?.dependencies ?? [],
+        unverified: verification?.unverified ?? [],
+      })),
+    repos: Object.entries(analysis.repos || {})
+      .map((entry) =>
+        toReportRepo(entry, analysis.repoWeights, analysis.visibility)
+      )
+      .sort(
+        (a, b) => b.commits + b.pullRequests - (a.commits + a.pullRequests)
+      ),
+    selection: analysis.repoSelection,
+  };
+}
+
+// ── Private repo redaction ──────────────────────────────────────────────────
+// Every private repo name becomes "private-repo-N" wherever it appears
+// (reasons, tables, selection, breakdown) and its commit / PR links are
+// dropped from link lists or replaced inside text.
+const REDACTED_LINK = "[private link]";
+
+function createRedactor(privateRepos: string[]) {
+  const rules = privateRepos.map((repo, i) => {
+    const name = escapeRegExp(repo);
+    return {
+      link: new RegExp(
+        `https://github\\.com/${name}(?![\\w.-])[^\\s)"'<>\\]]*`,
+        "gi"
+      ),
+      name: namePattern(repo),
+      alias: `private-repo-${i + 1}`,
+    };
+  });
+  return (text: string) =>
+    rules.reduce(
+      (t, r) => t.replace(r.link, REDACTED_LINK).replace(r.name, r.alias),
+      text
+    );
+}
+
+function redactDeep<T>(value: T, redact: (text: string) => string): T {
+  if (typeof value === "string") return redact(value) as T;
+  if (Array.isArray(value)) {
+    return value
+      .map((v) => redactDeep(v, redact))
+      .filter((v) => v !== REDACTED_LINK) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [redact(k), redactDeep(v, redact)])
+    ) as T;
+  }
+  return value;
+}
+
+/** Report data and analysis with the analysis' private repos redacted. */
+export function redactPrivateRepos(
+  data: ReportData,
+  analysis: CachedUserAnalysis
+) {
+  const redact = createRedactor(analysis.visibility.privateRepos);
+  return {
+    data: {
+      ...redactDeep(data, redact),
+      visibility: { ...data.visibility, redacted: true },
+    },
+    analysis: redactDeep(analysis, redact),
+  };
+}
+
+export function formatVisibility(v: ReportVisibility) {
+  return `${
+    v.tier === "public"
+      ? "public repositories only"
+      : `public and private repositories (${v.privateRepos} private analyzed${
+          v.redacted ? ", names redacted" : ""
+        })`
+  } — scope profile ${v.profile}`;
+}
+
+// ── Formatters ──────────────────────────────────────────────────────────────
+export type ReportFormat = "text" | "json" | "markdown" | "html";
+
+interface ReportFormatter {
+  extension: string;
+  format: (data: ReportData, analysis: CachedUserAnalysis) => string;
+}
+
+const formatLanguageRanking = (data: ReportData, n = 8) =>
+  data.rankings.languages
+    .slice(0, n)
+    .map((l) => `${l.name} ${l.share.toFixed(1)}%`)
+    .join(", ");
+
+const formatDependencyRanking = (data: ReportData, n = 10) =>
+  data.rankings.dependencies
+    .slice(0, n)
+    .map((d) => `${d.name} (${d.weight})`)
+    .join(", ");
+
+const formatText: ReportFormatter["format"] = (data, analysis) => {
+  const recommendations = data.recommendations
+    .map(
+      (r) => `Skill ID: ${r.id}
+Skill Name: ${r.name}
+Score: ${r.score}
+Source: ${r.source}
+Why: ${r.info}${
+        r.unverified.length ? `\nUnverified: ${r.unverified.join(", ")}` : ""
+      }${r.consensus ? `\nConsensus: ${formatConsensus(r.consensus)}` : ""}
+---`
+    )
+    .join("\n\n");
+
+  return `GitHub Skills Recommendation Report
+Generated: ${data.generatedAt}
+User: @${data.username}
+Visibility: ${formatVisibility(data.visibility)}
+
+Run Summary:
+Repos discovered: ${data.summary.reposDiscovered}
+Repos analyzed: ${data.summary.reposAnalyzed}
+Commits: ${data.summary.commits} | PRs: ${data.summary.pullRequests}
+Total API calls: ${data.run.totalApiCalls}
+Elapsed: ${data.run.elapsedSeconds.toFixed(2)} seconds
+
+Weighted Rankings (by contribution):
+Languages: ${formatLanguageRanking(data) || "n/a"}
+Dependencies: ${formatDependencyRanking(data) || "none"}
+
+Recommended Verified Skills:
+${recommendations || "none"}
+
+Per-Repository Breakdown:
+${formatRepoBreakdown(analysis) || "n/a"}
+${
+  data.selection
+    ? `\nRepository Selection:\n${formatRepoSelection(data.selection)}\n`
+    : ""
+}`;
+};
+
+// Table cells can't hold pipes or line breaks; "<" would start raw HTML
+const mdCell = (text: string) =>
+  text
+    .replace(/\|/g, "\\|")
+    .replace(/</g, "&lt;")
+    .replace(/\s*\n\s*/g, " ");
+
+const topLanguages = (languages: Record<string, number>) => {
+  const total = Object.values(languages).reduce((s, b) => s + b, 0) || 1;
+  return Object.entries(languages)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 3)
+    .map(([l, b]) => `${l} ${Math.round((b / total) * 100)}%`)
+    .join(", ");
+};
+
+const formatMarkdown: ReportFormatter["format"] = (data) => {
+  const lines = [
+    `# GitHub Skills Report — @${data.username}`,
+    "",
+    `_Generated ${data.generatedAt}_`,
+    "",
+    `**Visibility:** ${mdCell(formatVisibility(data.visibility))}`,
+    "",
+    "| Repos discovered | Repos analyzed | Commits | PRs | API calls | Elapsed |",
+    "|---:|---:|---:|---:|---:|---:|",
+    `| ${data.summary.reposDiscovered} | ${data.summary.reposAnalyzed} | ${
+      data.summary.commits
+    } | ${data.summary.pullRequests} | ${
+      data.run.totalApiCalls
+    } | ${data.run.elapsedSeconds.toFixed(1)}s |`,
+    "",
+    "## Weighted Rankings",
+    "",
+    `**Languages:** ${mdCell(formatLanguageRanking(data) || "n/a")}`,
+    "",
+    `**Dependencies:** ${mdCell(formatDependencyRanking(data) || "none")}`,
+    "",
+    "## Recommended Skills",
+    "",
+  ];
+  if (data.recommendations.length === 0) lines.push("_None_");
+  else {
+    lines.push("| Skill | Score | Source | Why |", "|---|---:|---|---|");
+    data.recommendations.forEach((r) =>
+      lines.push(
+        `| ${mdCell(r.name)} | ${r.score} | ${r.source} | ${mdCell(r.info)}${
+          r.unverified.length
+            ? ` **Unverified:** ${mdCell(r.unverified.join(", "))}`
+            : ""
+        }${
+          r.consensus
+            ? ` **Consensus:** ${mdCell(formatConsensus(r.consensus))}`
+            : ""
+        } |`
+      )
+    );
+  }
+
+  if (data.repos.length > 0) {
+    lines.push(
+      "",
+      "## Per-Repository Breakdown",
+      "",
+      "| Repository | Weight | Commits | PRs | Languages | Dependencies | Code signals |",
+      "|---|---:|---:|---:|---|---|---|"
+    );
+    data.repos.forEach((r) =>
+      lines.push(
+        `| ${
+          r.private ? mdCell(r.name) : `[${r.name}](https://github.com/${r.name})`
+        } | ${r.weight} | ${
+          r.commits
+        } | ${
+          r.pullRequests
+        } | ${mdCell(topLanguages(r.languages) || "n/a")} | ${mdCell(
+          r.dependencies.slice(0, 8).join(", ") || "none"
+        )}${
+          r.dependencies.length > 8 ? ` (+${r.dependencies.length - 8})` : ""
+        } | ${mdCell(formatSignals(r.signals, 5) || "none")} |`
+      )
+    );
+  }
+
+  if (data.selection) {
+    const { selected, skipped, excluded } = data.selection;
+    lines.push(
+      "",
+      "## Repository Selection",
+      "",
+      "| # | Repository | Rank score | Why |",
+      "|---:|---|---:|---|",
+      ...selected.map(
+        (r, i) =>
+          `| ${i + 1} | ${mdCell(r.repo)} | ${r.score} | ${mdCell(
+            r.reasons.join(", ")
+          )} |`
+      ),
+      "",
+      `**Skipped over the limit (${skipped.length}):** ${mdCell(
+        formatSkipped(skipped) || "none"
+      )}`,
+      "",
+      `**Excluded by pattern:** ${excluded.length}`
+    );
+  }
+  return lines.join("\n") + "\n";
+};
+
+const formatSkipped = (skipped: RankedRepo[], n = 10) => {
+  const shown = skipped.slice(0, n).map((r) => `${r.repo} (${r.score})`);
+  if (skipped.length > n) shown.push(`... ${skipped.length - n} more`);
+  return shown.join(", ");
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Shortened label for a commit / PR link
+const linkLabel = (url: string) =>
+  url
+    .replace("https://github.com/", "")
+    .replace(/\/commit\/([0-9a-f]{7})[0-9a-f]*/, "@$1")
+    .replace("/pull/", "#");
+
+const formatHtml: ReportFormatter["format"] = (data) => {
+  const skills = data.recommendations
+    .map(
+      (r) => `    <tr>
+      <td><strong>${escapeHtml(r.name)}</strong><br><code>${escapeHtml(
+        r.id
+      )}</code></td>
+      <td class="num">${r.score}</td>
+      <td><span class="source ${r.source.replace("+", "-")}">${
+        r.source
+      }</span></td>
+      <td>${escapeHtml(r.info)}${
+        r.evidence.length
+          ? `<ul>${r.evidence
+              .map(
+                (url) =>
+                  `<li><a href="${escapeHtml(url)}">${escapeHtml(
+                    linkLabel(url)
+                  )}</a></li>`
+              )
+              .join("")}</ul>`
+          : ""
+      }${
+        r.unverified.length
+          ? `<p class="unverified">Unverified: ${escapeHtml(
+              r.unverified.join(", ")
+            )}</p>`
+          : ""
+      }${
+        r.consensus
+          ? `<p class="consensus${
+              r.consensus.unstable ? " unstable" : ""
+            }">Consensus: ${escapeHtml(formatConsensus(r.consensus))}</p>`
+          : ""
+      }</td>
+    </tr>`
+    )
+    .join("\n");
+
+  const repos = data.repos
+    .map(
+      (r) => `    <tr>
+      <td>${
+        r.private
+          ? escapeHtml(r.name)
+          : `<a href="https://github.com/${escapeHtml(r.name)}">${escapeHtml(
+              r.name
+            )}</a>`
+      }</td>
+      <td class="num">${r.weight}</td>
+      <td class="num">${r.commits}</td>
+      <td class="num">${r.pullRequests}</td>
+      <td>${escapeHtml(topLanguages(r.languages) || "n/a")}</td>
+      <td>${escapeHtml(r.dependencies.join(", ") || "none")}</td>
+      <td>${escapeHtml(formatSignals(r.signals, 8) || "none")}</td>
+    </tr>`
+    )
+    .join("\n");
+
+  const selection = data.selection;
+  const selectedRepos = (selection?.selected || [])
+    .map(
+      (r, i) => `    <tr>
+      <td class="num">${i + 1}</td>
+      <td>${escapeHtml(r.repo)}</td>
+      <td class="num">${r.score}</td>
+      <td>${escapeHtml(r.reasons.join(", "))}</td>
+    </tr>`
+    )
+    .join("\n");
+  const selectionSection = selection
+    ? `<h2>Repository Selection</h2>
+<table>
+  <thead><tr><th>#</th><th>Repository</th><th>Rank score</th><th>Why</th></tr></thead>
+  <tbody>
+${selectedRepos || '    <tr><td colspan="4">n/a</td></tr>'}
+  </tbody>
+</table>
+<p><strong>Skipped over the limit (${
+        selection.skipped.length
+      }):</strong> ${escapeHtml(
+        formatSkipped(selection.skipped) || "none"
+      )}<br><strong>Excluded by pattern:</strong> ${
+        selection.excluded.length
+      }</p>
+`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>GitHub Skills Report — @${escapeHtml(data.username)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem auto; max-width: 1100px; color: #1f2328; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+  th, td { border: 1px solid #d0d7de; padding: 6px 10px; text-align: left; vertical-align: top; }
+  th { background: #f6f8fa; }
+  .num { text-align: right; }
+  .source { border-radius: 10px; padding: 1px 8px; font-size: 12px; background: #ddf4ff; }
+  .source.rules { background: #fff8c5; }
+  .source.rules-llm { background: #dafbe1; }
+  ul { margin: 4px 0 0; padding-left: 18px; }
+  .unverified { margin: 4px 0 0; color: #9a6700; }
+  .consensus { margin: 4px 0 0; color: #59636e; }
+  .consensus.unstable { color: #d1242f; }
+</style>
+</head>
+<body>
+<h1>GitHub Skills Report — @${escapeHtml(data.username)}</h1>
+<p>Generated ${escapeHtml(data.generatedAt)} · ${
+    data.summary.reposAnalyzed
+  } / ${data.summary.reposDiscovered} repos · ${
+    data.summary.commits
+  } commits · ${data.summary.pullRequests} PRs · ${
+    data.run.totalApiCalls
+  } API calls · ${data.run.elapsedSeconds.toFixed(1)}s<br>Visibility: ${escapeHtml(
+    formatVisibility(data.visibility)
+  )}</p>
+<h2>Weighted Rankings</h2>
+<p><strong>Languages:</strong> ${escapeHtml(
+    formatLanguageRanking(data) || "n/a"
+  )}<br><strong>Dependencies:</strong> ${escapeHtml(
+    formatDependencyRanking(data) || "none"
+  )}</p>
+<h2>Recommended Skills</h2>
+<table>
+  <thead><tr><th>Skill</th><th>Score</th><th>Source</th><th>Why &amp; evidence</th></tr></thead>
+  <tbody>
+${skills || '    <tr><td colspan="4">None</td></tr>'}
+  </tbody>
+</table>
+<h2>Per-Repository Breakdown</h2>
+<table>
+  <thead><tr><th>Repository</th><th>Weight</th><th>Commits</th><th>PRs</th><th>Languages</th><th>Dependencies</th><th>Code signals</th></tr></thead>
+  <tbody>
+${repos || '    <tr><td colspan="7">n/a</td></tr>'}
+  </tbody>
+</table>
+${selectionSection}</body>
+</html>
+`;
+};
+
+const REPORT_FORMATTERS: Record<ReportFormat, ReportFormatter> = {
+  text: { extension: "txt", format: formatText },
+  json: {
+    extension: "json",
+    format: (data) => JSON.stringify(data, null, 2) + "\n",
+  },
+  markdown: { extension: "md", format: formatMarkdown },
+  html: { extension: "html", format: formatHtml },
+};
+
+export const REPORT_FORMATS = Object.keys(REPORT_FORMATTERS) as ReportFormat[];
+
+export function renderReport(
+  format: ReportFormat,
+  data: ReportData,
+  analysis: CachedUserAnalysis
+) {
+  return REPORT_FORMATTERS[format].format(data, analysis);
+}
+
+/** Format implied by an output file's extension (report.md → markdown). */
+export function formatFromPath(file: string): ReportFormat | undefined {
+  const ext = path.extname(file).slice(1).toLowerCase();
+  if (ext === "htm") return "html";
+  return REPORT_FORMATS.find((f) => REPORT_FORMATTERS[f].extension === ext);
+}
+
+// ── Report file name ────────────────────────────────────────────────────────
+export function getReportFile(
+  username: string,
+  format: ReportFormat,
+  outputPath?: string
+) {
+  const dateStr = new Date(now()).toISOString().split("T")[0];
+  return (
+    outputPath ||
+    `skills-report-${username.toLowerCase()}-${dateStr}.${
+      REPORT_FORMATTERS[format].extension
+    }`
+  );
+}
@@ -0,0 +1,107 @@
+import { formatSignals, mergeSignals } from "./content";
+import { contributionWeight, formatContribution } from "./contribution";
+import { now } from "./fixtures";
+import { CachedUserAnalysis, RepoAnalysis, RepoSummary } from "./types";
+
+// ── RepoAnalysis ⇄ RepoSummary (JSON-safe, Sets → arrays) ───────────────────
+export function toRepoSummary(
+  analysis: RepoAnalysis,
+  markers: Pick<RepoSummary, "lastCommitSha" | "lastPrUpdatedAt">
+): RepoSummary {
+  return {
+    languages: analysis.languages,
+    // Sorted: manifests and commit details arrive in completion order
+    dependencies: Array.from(analysis.dependencies).sort(),
+    fileTypes: Array.from(analysis.fileTypes).sort(),
+    signals: analysis.signals,
+    commitCount: analysis.commitCount,
+    prCount: analysis.prCount,
+    evidence: [...analysis.evidence].sort(),
+    contribution: analysis.contribution,
+    lastActivityAt: analysis.lastActivityAt,
+    ...markers,
+    checkedAt: new Date(now()).toISOString(),
+  };
+}
+
+export function fromRepoSummary(summary: RepoSummary): RepoAnalysis {
+  return {
+    languages: summary.languages,
+    dependencies: new Set(summary.dependencies),
+    fileTypes: new Set(summary.fileTypes),
+    signals: summary.signals,
+    commitCount: summary.commitCount,
+    prCount: summary.prCount,
+    evidence: summary.evidence,
+    contribution: summary.contribution,
+    lastActivityAt: summary.lastActivityAt,
+  };
+}
+
+export const latestDate = (a?: string, b?: string) =>
+  !a || (b && Date.parse(b) > Date.parse(a)) ? b : a;
+
+/**
+ * Folds new activity into a previously stored repo. Counts, evidence and
+ * code signals accumulate; languages, dependencies and the contribution
+ * facts describe the repo as it is now, so the fresh values replace the old
+ * ones.
+ */
+export function mergeRepoSummary(
+  previous: RepoSummary,
+  update: RepoSummary
+): RepoSummary {
+  return {
+    languages: update.languages,
+    dependencies: update.dependencies,
+    fileTypes: Array.from(
+      new Set([...previous.fileTypes, ...update.fileTypes])
+    ),
+    signals: mergeSignals(previous.signals, update.signals),
+    commitCount: previous.commitCount + update.commitCount,
+    prCount: previous.prCount + update.prCount,
+    evidence: Array.from(new Set([...previous.evidence, ...update.evidence])),
+    contribution: update.contribution ?? previous.contribution,
+    lastActivityAt: latestDate(
+      previous.lastActivityAt,
+      update.lastActivityAt
+    ),
+    lastCommitSha: update.lastCommitSha,
+    lastPrUpdatedAt: update.lastPrUpdatedAt,
+    checkedAt: update.checkedAt,
+  };
+}
+
+// ── Per-repo breakdown (console / report) ────────────────────────────────────
+export function formatRepoBreakdown(analysis: CachedUserAnalysis): string {
+  // Caches older than schema v3 have no per-repo data
+  return Object.entries(analysis.repos || {})
+    .sort(
+      ([, a], [, b]) => b.commitCount + b.prCount - (a.commitCount + a.prCount)
+    )
+    .map(([repo, r]) => {
+      const totalBytes =
+        Object.values(r.languages).reduce((s, b) => s + b, 0) || 1;
+      const languages = Object.entries(r.languages)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 3)
+        .map(([l, b]) => `${l} ${Math.round((b / totalBytes) * 100)}%`)
+        .join(", ");
+      const contribution = contributionWeight(
+        r,
+        Date.parse(analysis.timestamp)
+      );
+      return `${repo}
+    Commits: ${r.commitCount} | PRs: ${r.prCount} | Evidence links: ${
+        r.evidence.length
+      }
+    Contribution: ${formatContribution(contribution)}
+    Languages: ${languages || "n/a"}
+    Dependencies: ${r.dependencies.slice(0, 10).join(", ") || "none"}${
+        r.dependencies.length > 10 ? ` (+${r.dependencies.length - 10})` : ""
+      }
+    File types: ${r.fileTypes.join(", ") || "none"}
+    Code signals: ${formatSignals(r.signals, 8) || "none"}`;
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,223 @@
+import { splitSignal } from "./content";
+import { splitDependency } from "./manifests";
+import { CachedUserAnalysis, Skill, SkillCandidate } from "./types";
+
+// ── Term normalization ──────────────────────────────────────────────────────
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "for",
+  "in",
+  "of",
+  "on",
+  "or",
+  "the",
+  "to",
+  "using",
+  "with",
+]);
+
+// Signals that never share a token with the skill they imply
+// (file extensions, package names, GitHub language labels).
+const TERM_ALIASES: Record<string, string[]> = {
+  ts: ["typescript"],
+  tsx: ["typescript", "react"],
+  js: ["javascript"],
+  jsx: ["javascript", "react"],
+  mjs: ["javascript"],
+  cjs: ["javascript"],
+  py: ["python"],
+  ipynb: ["jupyter", "python"],
+  rb: ["ruby"],
+  go: ["golang"],
+  golang: ["go"],
+  rs: ["rust"],
+  kt: ["kotlin"],
+  kts: ["kotlin", "gradle"],
+  cs: ["csharp", "net"],
+  csproj: ["csharp", "net"],
+  cpp: ["cpp"],
+  cc: ["cpp"],
+  hpp: ["cpp"],
+  m: ["objective"],
+  swift: ["swift", "ios"],
+  dart: ["dart", "flutter"],
+  vue: ["vue"],
+  svelte: ["svelte"],
+  scss: ["css", "sass"],
+  sass: ["css", "sass"],
+  less: ["css"],
+  htm: ["html"],
+  md: ["markdown"],
+  sh: ["shell", "bash"],
+  ps1: ["powershell"],
+  yml: ["yaml"],
+  tf: ["terraform"],
+  hcl: ["terraform"],
+  sol: ["solidity", "blockchain"],
+  graphql: ["graphql"],
+  gql: ["graphql"],
+  dockerfile: ["docker"],
+  tailwindcss: ["tailwind", "css"],
+  boto3: ["aws"],
+  botocore: ["aws"],
+  awscli: ["aws"],
+  awsebcli: ["aws"],
+  pg: ["postgresql"],
+  postgres: ["postgresql"],
+  psycopg2: ["postgresql"],
+  mongoose: ["mongodb"],
+  pymongo: ["mongodb"],
+  sklearn: ["scikit", "machine", "learning"],
+  torch: ["pytorch"],
+  tensorflow: ["tensorflow", "machine", "learning"],
+  nestjs: ["nest"],
+  expo: ["react", "native"],
+  // Manifest ecosystems
+  npm: ["javascript", "node"],
+  pypi: ["python"],
+  maven: ["java"],
+  cargo: ["rust"],
+  rubygems: ["ruby"],
+  packagist: ["php"],
+  nuget: ["csharp", "net"],
+  pub: ["dart"],
+};
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/c\+\+/g, "cpp")
+    .replace(/c#/g, "csharp")
+    .replace(/f#/g, "fsharp")
+    .replace(/\.net\b/g, " net")
+    .replace(/\.js\b/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(
+      (t) => (t.length > 1 || t === "c" || t === "r") && !STOP_WORDS.has(t)
+    );
+}
+
+function expandTerms(text: string): string[] {
+  const compact = text.toLowerCase().replace(/^@/, "").replace(/\.js$/, "");
+  const terms = new Set(tokenize(text));
+  terms.add(compact.replace(/[^a-z0-9+#]/g, ""));
+  for (const t of Array.from(terms)) {
+    (TERM_ALIASES[t] || []).forEach((alias) => terms.add(alias));
+  }
+  return Array.from(terms).filter(Boolean);
+}
+
+// ── Signal extraction ───────────────────────────────────────────────────────
+function collectSignals(analysis: CachedUserAnalysis): Map<string, number> {
+  const signals = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const term of expandTerms(text)) {
+      signals.set(term, (signals.get(term) || 0) + weight);
+    }
+  };
+
+  // "TypeScript: 45.12%" → language share boosts the weight
+  for (const line of analysis.langPercentages) {
+    const match = line.match(/^(.+):\s*([\d.]+)%$/);
+    if (!match) continue;
+    add(match[1], 1 + parseFloat(match[2]) / 10);
+  }
+  // "npm:react" → the package name, plus each ecosystem once
+  const ecosystems = new Set<string>();
+  analysis.topDependencies.forEach((dep) => {
+    const { ecosystem, name } = splitDependency(dep);
+    add(name, 1);
+    if (ecosystem) ecosystems.add(ecosystem);
+  });
+  ecosystems.forEach((ecosystem) => add(ecosystem, 1));
+  analysis.topFileTypes.forEach((ext) => add(ext, 1.5));
+  // "config:docker" (120 lines) → "docker", weighted by lines changed;
+  // test files point at testing, not at their extension
+  Object.entries(analysis.topSignals || {}).forEach(([signal, lines]) => {
+    const [kind, value] = splitSignal(signal);
+    add(kind === "test" ? "testing" : value, 1 + Math.log10(1 + lines));
+  });
+
+  return signals;
+}
+
+// ── Skill index ─────────────────────────────────────────────────────────────
+function buildIdf(skillTerms: string[][]): Map<string, number> {
+  const df = new Map<string, number>();
+  for (const terms of skillTerms) {
+    new Set(terms).forEach((t) => df.set(t, (df.get(t) || 0) + 1));
+  }
+  const idf = new Map<string, number>();
+  df.forEach((count, term) => {
+    idf.set(term, Math.log(1 + skillTerms.length / count));
+  });
+  return idf;
+}
+
+// The prompt asks for up to 10 skills and the answer schema only allows
+// shortlisted names, so a thin match list is padded to leave the model a choice
+const MIN_SHORTLIST = 20;
+
+/**
+ * Scores every Topcoder skill against the languages, dependencies, file
+ * types and code signals of the analysis and returns the `topN` best candidates.
+ * Fewer than MIN_SHORTLIST matches are padded with unmatched skills; nothing
+ * matching at all falls back to the first `topN` skills.
+ */
+export function buildSkillShortlist(
+  analysis: CachedUserAnalysis,
+  allSkills: Skill[],
+  topN: number
+): SkillCandidate[] {
+  const signals = collectSignals(analysis);
+  const skillTerms = allSkills.map((s) =>
+    Array.from(new Set(tokenize(s.name)))
+  );
+  const idf = buildIdf(skillTerms);
+
+  const scored = allSkills.map((skill, i) => {
+    const terms = skillTerms[i];
+    const matchedTerms = terms.filter((t) => signals.has(t));
+    let score = matchedTerms.reduce(
+      (sum, t) => sum + idf.get(t)! * Math.log1p(signals.get(t)!),
+      0
+    );
+    if (terms.length > 0) score /= Math.sqrt(terms.length);
+
+    // Whole-name hit (dependency "react" → skill "React") is the strongest
+    if (signals.has(terms.join(""))) score *= 2;
+
+    return {
+      id: skill.id,
+      name: skill.name,
+      score: Math.round(score * 1000) / 1000,
+      matchedTerms,
+    };
+  });
+
+  const matched = scored
+    .filter((c) => c.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topN);
+
+  if (matched.length === 0) {
+    console.warn(
+      "No skill matched the analysis signals — using unranked list"
+    );
+    return scored.slice(0, topN);
+  }
+
+  const minimum = Math.min(topN, MIN_SHORTLIST);
+  if (matched.length < minimum) {
+    const padding = scored
+      .filter((c) => c.score === 0)
+      .slice(0, minimum - matched.length);
+    console.log(
+      `Only ${matched.length} skill(s) matched — padded the shortlist with ${padding.length} unmatched skill(s)`
+    );
+    return [...matched, ...padding];
+  }
+  return matched;
+}
@@ -0,0 +1,201 @@
+import * as fs from "fs/promises";
+import * as readline from "readline/promises";
+import { formatConsensus } from "./consensus";
+import { extractEvidenceLinks } from "./report";
+import {
+  CachedUserAnalysis,
+  Recommendation,
+  ReviewDecisions,
+  SkillCandidate,
+} from "./types";
+
+// ── Decisions file ──────────────────────────────────────────────────────────
+export async function loadReviewDecisions(
+  file: string,
+  username: string
+): Promise<ReviewDecisions> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch {
+    return { username, updatedAt: new Date().toISOString(), rejected: {} };
+  }
+}
+
+export async function saveReviewDecisions(
+  file: string,
+  decisions: ReviewDecisions
+) {
+  decisions.updatedAt = new Date().toISOString();
+  await fs.writeFile(file, JSON.stringify(decisions, null, 2));
+}
+
+/** Removes skills rejected in an earlier review. */
+export function dropRejected(
+  recommendations: Recommendation[],
+  decisions: ReviewDecisions
+): Recommendation[] {
+  const kept = recommendations.filter((r) => !decisions.rejected[r.id]);
+  const dropped = recommendations.length - kept.length;
+  if (dropped > 0) {
+    console.log(`Dropped ${dropped} skill(s) rejected in an earlier review`);
+  }
+  return kept;
+}
+
+// ── Evidence backing one recommendation ─────────────────────────────────────
+// Verified links cited in the reason, plus the collected evidence of every
+// repo the reason names (directly or through a cited link).
+export function collectRecommendationEvidence(
+  recommendation: Recommendation,
+  analysis: CachedUserAnalysis
+) {
+  const cited =
+    recommendation.verification?.links ??
+    extractEvidenceLinks(recommendation.info);
+  const repos = Object.keys(analysis.repos || {}).filter(
+    (repo) =>
+      recommendation.info.includes(repo) ||
+      cited.some((link) => link.startsWith(`https://github.com/${repo}/`))
+  );
+  return {
+    cited,
+    unverified: recommendation.verification?.unverified ?? [],
+    repos: repos.map((repo) => ({
+      repo,
+      links: analysis.repos[repo].evidence,
+    })),
+  };
+}
+
+// ── Interactive review ──────────────────────────────────────────────────────
+const HELP = `  [a]ccept (Enter)  [r]eject  [s]core <0-100>  [e]vidence
+  [l] alternative skills  [q]uit (accept the rest)  [?] help`;
+
+const MAX_ALTERNATIVES = 5;
+const MAX_EVIDENCE_PER_REPO = 20;
+
+/**
+ * Steps through each recommendation in the terminal. Rejections are recorded
+ * in `decisions` (the caller saves them) so later runs don't propose them
+ * again; the returned list holds the accepted, adjusted and replaced skills.
+ */
+export async function reviewRecommendations(
+  recommendations: Recommendation[],
+  analysis: CachedUserAnalysis,
+  candidates: SkillCandidate[],
+  decisions: ReviewDecisions
+): Promise<Recommendation[]> {
+  if (!process.stdin.isTTY) {
+    throw new Error("Interactive review needs a terminal");
+  }
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  const queue = recommendations
+    .map((r) => ({ ...r }))
+    .sort((a, b) => b.score - a.score);
+  const reviewed: Recommendation[] = [];
+  const taken = () => new Set([...queue, ...reviewed].map((r) => r.id));
+
+  try {
+    console.log(`\nReviewing ${queue.length} recommendation(s)\n${HELP}`);
+    let index = 0;
+    while (index < queue.length) {
+      const rec = queue[index];
+      console.log(
+        `\n(${index + 1}/${queue.length}) ${rec.name} — score ${rec.score}, ${
+          rec.source ?? "llm"
+        }\n  ${rec.info}${
+          rec.consensus ? `\n  Consensus: ${formatConsensus(rec.consensus)}` : ""
+        }`
+      );
+      const answer = (await rl.question("> ")).trim();
+      const [command, arg] = answer.split(/\s+/);
+
+      if (command === "a" || command === "") {
+        reviewed.push(rec);
+        index++;
+      } else if (command === "r") {
+        decisions.rejected[rec.id] = {
+          name: rec.name,
+          at: new Date().toISOString(),
+        };
+        console.log(`  Rejected ${rec.name} (won't be proposed again)`);
+        index++;
+      } else if (command === "s") {
+        const score = parseInt(arg ?? "", 10);
+        if (!Number.isInteger(score) || score < 0 || score > 100) {
+          console.log("  Usage: s <0-100>");
+          continue;
+        }
+        rec.score = score;
+        console.log(`  Score set to ${score}`);
+      } else if (command === "e") {
+        const evidence = collectRecommendationEvidence(rec, analysis);
+        console.log(
+          evidence.cited.length
+            ? `  Cited:\n${evidence.cited.map((l) => `    ${l}`).join("\n")}`
+            : "  No verified links cited in the reason"
+        );
+        if (evidence.unverified.length) {
+          console.log(`  Unverified: ${evidence.unverified.join(", ")}`);
+        }
+        evidence.repos.forEach(({ repo, links }) => {
+          console.log(`  ${repo} (${links.length} links):`);
+          links
+            .slice(0, MAX_EVIDENCE_PER_REPO)
+            .forEach((l) => console.log(`    ${l}`));
+          if (links.length > MAX_EVIDENCE_PER_REPO) {
+            console.log(`    ... ${links.length - MAX_EVIDENCE_PER_REPO} more`);
+          }
+        });
+      } else if (command === "l") {
+        const used = taken();
+        const alternatives = candidates
+          .filter((c) => !used.has(c.id) && !decisions.rejected[c.id])
+          .slice(0, MAX_ALTERNATIVES);
+        if (alternatives.length === 0) {
+          console.log("  No alternative skills left");
+          continue;
+        }
+        alternatives.forEach((c, i) =>
+          console.log(
+            `  ${i + 1}. ${c.name}${
+              c.matchedTerms.length ? ` (${c.matchedTerms.join(", ")})` : ""
+            }`
+          )
+        );
+        const pick = parseInt(
+          (await rl.question("  Replace with # (Enter to keep): ")).trim(),
+          10
+        );
+        const alternative = alternatives[pick - 1];
+        if (!alternative) continue;
+        queue[index] = {
+          ...rec,
+          id: alternative.id,
+          name: alternative.name,
+          info: `Chosen in review instead of ${rec.name}. ${rec.info}`,
+        };
+      } else if (command === "q") {
+        console.log(`  Accepted the remaining ${queue.length - index}`);
+        reviewed.push(...queue.slice(index));
+        break;
+      } else {
+        console.log(HELP);
+      }
+    }
+  } finally {
+    rl.close();
+  }
+
+  const rejected = recommendations.length - reviewed.length;
+  console.log(
+    `\nReview done: ${reviewed.length} kept${
+      rejected > 0 ? `, ${rejected} rejected` : ""
+    }`
+  );
+  return reviewed;
+}
@@ -0,0 +1,326 @@
+import * as fs from "fs/promises";
+import { splitDependency } from "./manifests";
+import { extractEvidenceLinks } from "./report";
+import { CachedUserAnalysis, Recommendation, Skill } from "./types";
+
+// ── Rule file ───────────────────────────────────────────────────────────────
+/**
+ * One mapping from GitHub signals to a Topcoder skill. `skill` is resolved
+ * against the skills list by name (case and punctuation insensitive) unless
+ * `id` pins it. Dependencies are matched as "ecosystem:name" when the pattern
+ * has an ecosystem, by bare name otherwise; a trailing `*` matches a prefix.
+ * `signals` are code signals from commit diffs ("config:docker",
+ * "framework:react", see content.ts), with the same `*` prefix matching.
+ */
+export interface SkillRule {
+  skill: string;
+  id?: string;
+  languages?: string[];
+  dependencies?: string[];
+  fileTypes?: string[];
+  signals?: string[];
+}
+
+export async function loadSkillRules(file: string): Promise<SkillRule[]> {
+  let data: any;
+  try {
+    data = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Cannot read skill rules ${file}: ${err.message}`);
+  }
+  const rules = Array.isArray(data) ? data : data.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error(`Skill rules ${file}: expected a "rules" array`);
+  }
+  return rules.filter((r: any) => typeof r?.skill === "string");
+}
+
+// ── Signals ─────────────────────────────────────────────────────────────────
+interface RepoSignals {
+  languages: Record<string, number>;
+  dependencies: string[];
+  fileTypes: string[];
+  signals: Record<string, number>;
+  activity: number;
+  // Contribution weight (see contribution.ts)
+  weight: number;
+  evidence?: string;
+}
+
+// Per repo when the cache has a breakdown, otherwise one pseudo-repo built
+// from the aggregate
+function collectRepoSignals(
+  analysis: CachedUserAnalysis
+): Record<string, RepoSignals> {
+  const repos = Object.entries(analysis.repos || {});
+  if (repos.length > 0) {
+    return Object.fromEntries(
+      repos.map(([repo, r]) => [
+        repo,
+        {
+          languages: r.languages,
+          dependencies: r.dependencies,
+          fileTypes: r.fileTypes,
+          signals: r.signals || {},
+          activity: r.commitCount + r.prCount,
+          weight: analysis.repoWeights?.[repo] ?? 1,
+          evidence: r.evidence[0],
+        },
+      ])
+    );
+  }
+
+  const languages: Record<string, number> = {};
+  for (const line of analysis.langPercentages) {
+    const match = line.match(/^(.+):\s*([\d.]+)%$/);
+    if (match) languages[match[1]] = parseFloat(match[2]);
+  }
+  return {
+    [`@${analysis.username}`]: {
+      languages,
+      dependencies: analysis.topDependencies,
+      fileTypes: analysis.topFileTypes,
+      signals: analysis.topSignals || {},
+      activity: analysis.totalCommits + analysis.totalPRs,
+      weight: 1,
+    },
+  };
+}
+
+const compact = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9+#]/g, "");
+
+function matchesDependency(pattern: string, dep: string) {
+  const p = pattern.toLowerCase();
+  const target = p.includes(":")
+    ? dep.toLowerCase()
+    : splitDependency(dep).name.toLowerCase();
+  return p.endsWith("*") ? target.startsWith(p.slice(0, -1)) : target === p;
+}
+
+function matchesSignal(pattern: string, signal: string) {
+  const p = pattern.toLowerCase();
+  const target = signal.toLowerCase();
+  return p.endsWith("*") ? target.startsWith(p.slice(0, -1)) : target === p;
+}
+
+// ── Scoring ─────────────────────────────────────────────────────────────────
+// Language share (weighted by contribution) matters most; dependencies and
+// file types add fixed points up to a cap, so one stray file can't produce a
+// recommendation on its own. Code signals add points by the lines changed
+// (10 → 5, 100 → 10, 1000 → 15), also capped. A rule only produces a
+// recommendation when a language makes up a meaningful share of the code or
+// at least two kinds of signal agree: a 1% language or a lone dependency
+// clears MIN_SCORE, but is not evidence of the skill.
+const BASE_SCORE = 30;
+const MAX_SCORE = 90;
+const MIN_SCORE = 40;
+const MIN_LANGUAGE_SHARE = 1;
+const MEANINGFUL_LANGUAGE_SHARE = 10;
+const MIN_SIGNAL_KINDS = 2;
+const DEPENDENCY_POINTS = 12;
+const MAX_DEPENDENCY_MATCHES = 3;
+const FILE_TYPE_POINTS = 8;
+const MAX_FILE_TYPE_MATCHES = 2;
+const MIN_SIGNAL_LINES = 10;
+const MAX_POINTS_PER_SIGNAL = 15;
+const MAX_SIGNAL_POINTS = 30;
+
+const signalPoints = (lines: number) =>
+  Math.min(MAX_POINTS_PER_SIGNAL, Math.round(5 * Math.log10(lines)));
+
+/**
+ * Deterministic baseline: scores every rule against the analysis without any
+ * model or network call. Rules whose skill can't be resolved are skipped.
+ */
+export function applySkillRules(
+  analysis: CachedUserAnalysis,
+  rules: SkillRule[],
+  allSkills: Skill[]
+): Recommendation[] {
+  const repos = collectRepoSignals(analysis);
+  const skillsByName = new Map(allSkills.map((s) => [compact(s.name), s]));
+
+  const totals: Record<string, number> = {};
+  Object.values(repos).forEach((r) =>
+    Object.entries(r.languages).forEach(([lang, bytes]) => {
+      totals[lang.toLowerCase()] =
+        (totals[lang.toLowerCase()] || 0) + bytes * r.weight;
+    })
+  );
+  const totalBytes = Object.values(totals).reduce((s, b) => s + b, 0) || 1;
+
+  const unresolved: string[] = [];
+  const byId = new Map<string, Recommendation>();
+
+  for (const rule of rules) {
+    const skill = rule.id
+      ? { id: rule.id, name: rule.skill }
+      : skillsByName.get(compact(rule.skill));
+    if (!skill) {
+      unresolved.push(rule.skill);
+      continue;
+    }
+
+    const languages = (rule.languages || [])
+      .map((lang) => ({
+        lang,
+        share: ((totals[lang.toLowerCase()] || 0) / totalBytes) * 100,
+      }))
+      .filter((l) => l.share >= MIN_LANGUAGE_SHARE);
+    const matchedRepos = new Set<string>();
+    const dependencies = new Set<string>();
+    const fileTypes = new Set<string>();
+    const signals: Record<string, number> = {};
+    for (const [repo, r] of Object.entries(repos)) {
+      const deps = r.dependencies.filter((d) =>
+        (rule.dependencies || []).some((p) => matchesDependency(p, d))
+      );
+      const exts = r.fileTypes.filter((ext) =>
+        (rule.fileTypes || []).some(
+          (p) => p.toLowerCase() === ext.toLowerCase()
+        )
+      );
+      const langs = languages.some((l) =>
+        Object.keys(r.languages).some(
+          (name) => name.toLowerCase() === l.lang.toLowerCase()
+        )
+      );
+      const codeSignals = Object.entries(r.signals).filter(([signal]) =>
+        (rule.signals || []).some((p) => matchesSignal(p, signal))
+      );
+      deps.forEach((d) => dependencies.add(d));
+      exts.forEach((ext) => fileTypes.add(ext));
+      codeSignals.forEach(([signal, lines]) => {
+        signals[signal] = (signals[signal] || 0) + lines;
+      });
+      if (deps.length || exts.length || langs || codeSignals.length) {
+        matchedRepos.add(repo);
+      }
+    }
+
+    const strongSignals = Object.entries(signals)
+      .filter(([, lines]) => lines >= MIN_SIGNAL_LINES)
+      .sort(([, a], [, b]) => b - a);
+
+    const score = Math.min(
+      MAX_SCORE,
+      Math.round(
+        BASE_SCORE +
+          languages.reduce((s, l) => s + Math.min(40, 10 + l.share), 0) +
+          Math.min(dependencies.size, MAX_DEPENDENCY_MATCHES) *
+            DEPENDENCY_POINTS +
+          Math.min(fileTypes.size, MAX_FILE_TYPE_MATCHES) * FILE_TYPE_POINTS +
+          Math.min(
+            MAX_SIGNAL_POINTS,
+            strongSignals.reduce((s, [, lines]) => s + signalPoints(lines), 0)
+          )
+      )
+    );
+    const signalKinds = [
+      languages.length,
+      dependencies.size,
+      fileTypes.size,
+      strongSignals.length,
+    ].filter((n) => n > 0).length;
+    const meaningfulLanguage = languages.some(
+      (l) => l.share >= MEANINGFUL_LANGUAGE_SHARE
+    );
+    if (
+      matchedRepos.size === 0 ||
+      score < MIN_SCORE ||
+      (!meaningfulLanguage && signalKinds < MIN_SIGNAL_KINDS)
+    ) {
+      continue;
+    }
+
+    const reasons = [
+      languages.length &&
+        `${languages
+          .map((l) => `${l.lang} ${l.share.toFixed(0)}%`)
+          .join(", ")} of code`,
+      dependencies.size &&
+        `dependencies ${Array.from(dependencies).slice(0, 5).join(", ")}`,
+      fileTypes.size && `file types ${Array.from(fileTypes).join(", ")}`,
+      strongSignals.length &&
+        `code signals ${strongSignals
+          .slice(0, 3)
+          .map(([signal, lines]) => `${signal} (${lines} lines)`)
+          .join(", ")}`,
+    ].filter(Boolean);
+    const seenIn = Array.from(matchedRepos)
+      .sort(
+        (a, b) =>
+          repos[b].activity * repos[b].weight -
+          repos[a].activity * repos[a].weight
+      )
+      .slice(0, 2)
+      .map((repo) =>
+        repos[repo].evidence ? `${repo} (${repos[repo].evidence})` : repo
+      );
+
+    const recommendation: Recommendation = {
+      id: skill.id,
+      name: skill.name,
+      score,
+      info: `Rule match: ${reasons.join("; ")}. Seen in ${seenIn.join(
+        ", "
+      )}.`,
+      source: "rules",
+    };
+    // Several rules may point at one skill: keep the strongest
+    const existing = byId.get(skill.id);
+    if (!existing || existing.score < score) {
+      byId.set(skill.id, recommendation);
+    }
+  }
+
+  if (unresolved.length > 0) {
+    console.warn(
+      `Skill rules: ${
+        unresolved.length
+      } rule(s) name skills not in the Topcoder list: ${unresolved
+        .slice(0, 10)
+        .join(", ")}${unresolved.length > 10 ? ", ..." : ""}`
+    );
+  }
+  return Array.from(byId.values()).sort((a, b) => b.score - a.score);
+}
+
+// ── Merge with LLM output ───────────────────────────────────────────────────
+/**
+ * A skill found by both keeps the higher score and both reasons; everything
+ * else is kept with its single source.
+ */
+export function mergeRecommendations(
+  llm: Recommendation[],
+  rules: Recommendation[]
+): Recommendation[] {
+  const merged = new Map<string, Recommendation>();
+  llm.forEach((r) => merged.set(r.id, { ...r, source: "llm" }));
+  for (const r of rules) {
+    const other = merged.get(r.id);
+    merged.set(
+      r.id,
+      other
+        ? {
+            ...other,
+            score: Math.max(other.score, r.score),
+            info: `${other.info} (${r.info})`,
+            source: "rules+llm",
+            // Rule reasons only cite links from the analysis
+            verification: other.verification && {
+              ...other.verification,
+              links: Array.from(
+                new Set([
+                  ...other.verification.links,
+                  ...extractEvidenceLinks(r.info),
+                ])
+              ),
+            },
+          }
+        : r
+    );
+  }
+  return Array.from(merged.values()).sort((a, b) => b.score - a.score);
+}
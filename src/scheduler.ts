@@ -0,0 +1,76 @@
+// ── Concurrency-limited request scheduler ───────────────────────────────────
+/**
+ * Hands out at most `concurrency` slots at a time. `pauseUntil` holds back
+ * every queued request until the given time (used when a rate limit runs low),
+ * without blocking requests that are already in flight.
+ */
+export function createRequestScheduler(concurrency: number) {
+  let active = 0;
+  let pausedUntil = 0;
+  let timer: NodeJS.Timeout | undefined;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    while (active < concurrency && queue.length > 0) {
+      const wait = pausedUntil - Date.now();
+      if (wait > 0) {
+        if (!timer) {
+          timer = setTimeout(() => {
+            timer = undefined;
+            next();
+          }, wait);
+        }
+        return;
+      }
+      active++;
+      queue.shift()!();
+    }
+  };
+
+  return {
+    acquire: () =>
+      new Promise<void>((resolve) => {
+        queue.push(resolve);
+        next();
+      }),
+    release: () => {
+      active = Math.max(0, active - 1);
+      next();
+    },
+    pauseUntil: (time: number) => {
+      if (time <= pausedUntil) return false;
+      pausedUntil = time;
+      return true;
+    },
+  };
+}
+
+// ── Bounded parallel map (keeps input order) ────────────────────────────────
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const i = nextIndex++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    worker
+  );
+  await Promise.all(workers);
+  return results;
+}
+
+// ── Even sampling across a list (newest and oldest always included) ─────────
+export function sampleEvenly<T>(items: T[], max: number): T[] {
+  if (max <= 0 || items.length <= max) return items;
+  if (max === 1) return [items[0]];
+  const step = (items.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => items[Math.round(i * step)]);
+}
@@ -0,0 +1,169 @@
+import { RankedRepo, RepoCandidate, RepoSelection } from "./types";
+
+// ── Candidates (filled during discovery) ────────────────────────────────────
+/**
+ * Adds hits and metadata for one discovered repo. Hits accumulate; metadata
+ * fields only overwrite when the new source actually has them.
+ */
+export function recordCandidate(
+  candidates: Map<string, RepoCandidate>,
+  repo: string,
+  update: Partial<RepoCandidate> = {}
+) {
+  const current = candidates.get(repo) || { commitHits: 0, prHits: 0 };
+  const metadata = Object.fromEntries(
+    Object.entries(update).filter(([, v]) => v !== undefined && v !== null)
+  );
+  candidates.set(repo, {
+    ...current,
+    ...metadata,
+    commitHits: current.commitHits + (update.commitHits || 0),
+    prHits: current.prHits + (update.prHits || 0),
+  });
+}
+
+// ── Include / exclude patterns ──────────────────────────────────────────────
+// "owner/name" globs, case-insensitive; `*` matches any run of characters and
+// a pattern without "/" names an owner ("my-org" = "my-org/*").
+function patternToRegExp(pattern: string) {
+  const full = pattern.includes("/") ? pattern : `${pattern}/*`;
+  const source = full
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+export function createRepoFilter(include: string[], exclude: string[]) {
+  const includes = include.map(patternToRegExp);
+  const excludes = exclude.map(patternToRegExp);
+  return (repo: string) =>
+    (includes.length === 0 || includes.some((p) => p.test(repo))) &&
+    !excludes.some((p) => p.test(repo));
+}
+
+// ── Ranking ─────────────────────────────────────────────────────────────────
+// The user's own activity dominates; ownership, recent pushes and stars break
+// ties; forks, archived and empty repos sink.
+const PR_HIT_FACTOR = 2;
+const OWNED_POINTS = 3;
+const RECENT_PUSH_POINTS = 5;
+const STAR_POINTS = 2;
+const FORK_PENALTY = 4;
+const IDLE_FORK_PENALTY = 8;
+const ARCHIVED_PENALTY = 2;
+const EMPTY_PENALTY = 20;
+
+const YEAR_MS = 365.25 * 24 * 3600 * 1000;
+
+const plural = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+
+export function rankRepo(
+  repo: string,
+  c: RepoCandidate,
+  now = Date.now()
+): RankedRepo {
+  const reasons: string[] = [];
+  const activity = c.commitHits + PR_HIT_FACTOR * c.prHits;
+  let score = 10 * Math.log10(1 + activity);
+  if (c.commitHits) reasons.push(plural(c.commitHits, "commit hit"));
+  if (c.prHits) reasons.push(plural(c.prHits, "PR hit"));
+
+  if (c.owned) {
+    score += OWNED_POINTS;
+    reasons.push("owner");
+  }
+  if (c.pushedAt) {
+    const ageYears = Math.max(0, (now - Date.parse(c.pushedAt)) / YEAR_MS);
+    score += RECENT_PUSH_POINTS * 0.5 ** ageYears;
+    reasons.push(`pushed ${c.pushedAt.slice(0, 10)}`);
+  }
+  if (c.stars) {
+    score += STAR_POINTS * Math.log10(1 + c.stars);
+    reasons.push(`${c.stars} stars`);
+  }
+  if (c.fork) {
+    score -= activity > 0 ? FORK_PENALTY : IDLE_FORK_PENALTY;
+    reasons.push("fork");
+  }
+  if (c.archived) {
+    score -= ARCHIVED_PENALTY;
+    reasons.push("archived");
+  }
+  if (c.sizeKb === 0) {
+    score -= EMPTY_PENALTY;
+    reasons.push("empty");
+  }
+
+  return { repo, score: Math.round(score * 10) / 10, reasons };
+}
+
+// ── Selection ───────────────────────────────────────────────────────────────
+/**
+ * Picks the repos to analyze: the best-ranked candidates passing the
+ * include / exclude patterns, up to `maxRepos`. Repos analyzed before
+ * (`pinned`, incremental mode) stay selected and use up slots first.
+ */
+export function selectRepos(
+  candidates: Map<string, RepoCandidate>,
+  options: { maxRepos: number; include: string[]; exclude: string[] },
+  pinned: string[] = [],
+  now = Date.now()
+): RepoSelection {
+  const accepts = createRepoFilter(options.include, options.exclude);
+  const excluded = Array.from(candidates.keys()).filter((r) => !accepts(r));
+
+  const kept = pinned.filter(accepts).map((repo) => {
+    const c = candidates.get(repo);
+    const ranked = c
+      ? rankRepo(repo, c, now)
+      : { repo, score: 0, reasons: [] };
+    return { ...ranked, reasons: ["analyzed before", ...ranked.reasons] };
+  });
+  const ranked = Array.from(candidates.entries())
+    .filter(([repo]) => accepts(repo) && !pinned.includes(repo))
+    .map(([repo, c]) => rankRepo(repo, c, now))
+    // Stable: equal scores keep discovery order
+    .sort((a, b) => b.score - a.score);
+
+  const free = Math.max(0, options.maxRepos - kept.length);
+  return {
+    include: options.include,
+    exclude: options.exclude,
+    selected: [...kept, ...ranked.slice(0, free)],
+    skipped: ranked.slice(free),
+    excluded: Array.from(
+      new Set([...excluded, ...pinned.filter((r) => !accepts(r))])
+    ),
+  };
+}
+
+const formatRanked = (r: RankedRepo) =>
+  `${r.repo} (${r.score}${
+    r.reasons.length ? `: ${r.reasons.join(", ")}` : ""
+  })`;
+
+export function formatRepoSelection(
+  selection: RepoSelection,
+  maxSkipped = 10
+) {
+  const filters = [
+    selection.include.length && `include ${selection.include.join(", ")}`,
+    selection.exclude.length && `exclude ${selection.exclude.join(", ")}`,
+  ].filter(Boolean);
+  const skipped = selection.skipped.slice(0, maxSkipped);
+  return [
+    `Selected ${selection.selected.length} repos${
+      filters.length ? ` (${filters.join("; ")})` : ""
+    }:`,
+    ...selection.selected.map((r, i) => `  ${i + 1}. ${formatRanked(r)}`),
+    `Skipped ${selection.skipped.length} over the limit${
+      skipped.length ? ":" : ""
+    }`,
+    ...skipped.map((r) => `  - ${formatRanked(r)}`),
+    ...(selection.skipped.length > skipped.length
+      ? [`  ... ${selection.skipped.length - skipped.length} more`]
+      : []),
+    `Excluded by pattern: ${selection.excluded.length}`,
+  ].join("\n");
+}
@@ -0,0 +1,108 @@
+import axios, { AxiosInstance } from "axios";
+import { AppConfig } from "./config";
+import { extractEvidenceLinks } from "./report";
+import { Recommendation } from "./types";
+
+// ── Topcoder member skills API ──────────────────────────────────────────────
+// All paths are relative to TOPCODER_API_URL, so the same code runs against
+// the dev API, production or the local mock server (src/mock-topcoder.ts):
+//   GET  /members/:handle                          → { userId, handle }
+//   GET  /standardized-skills/user-skills/:userId  → skills on the profile
+//   POST /standardized-skills/user-skills/:userId  ← { skills: [...] }
+export interface MemberSkillPayload {
+  id: string;
+  levelId?: string;
+  evidence: { url: string; description: string }[];
+}
+
+export function createTopcoderClient(config: AppConfig): AxiosInstance {
+  return axios.create({
+    baseURL: config.topcoderApiUrl,
+    headers: config.topcoderToken
+      ? { Authorization: `Bearer ${config.topcoderToken}` }
+      : {},
+    timeout: 30000,
+  });
+}
+
+function describeError(err: any, what: string): Error {
+  const status = err.response?.status;
+  if (status === 401 || status === 403) {
+    return new Error(
+      `Topcoder rejected the token while ${what} (HTTP ${status}) — check TOPCODER_TOKEN`
+    );
+  }
+  const detail = err.response?.data?.message || err.message;
+  return new Error(
+    `Topcoder API error while ${what}: ${status ? `HTTP ${status} ` : ""}${detail}`
+  );
+}
+
+export async function resolveMemberUserId(
+  topcoder: AxiosInstance,
+  handle: string
+): Promise<string> {
+  try {
+    const res = await topcoder.get(`/members/${encodeURIComponent(handle)}`);
+    if (res.data?.userId === undefined) {
+      throw new Error(`no userId in the response for ${handle}`);
+    }
+    return String(res.data.userId);
+  } catch (err: any) {
+    if (err.response?.status === 404) {
+      throw new Error(`Topcoder member ${handle} not found`);
+    }
+    throw describeError(err, `looking up member ${handle}`);
+  }
+}
+
+/** IDs of the skills already on the profile (empty for a new profile). */
+export async function getMemberSkillIds(
+  topcoder: AxiosInstance,
+  userId: string
+): Promise<Set<string>> {
+  try {
+    const res = await topcoder.get(
+      `/standardized-skills/user-skills/${userId}`
+    );
+    const skills = Array.isArray(res.data) ? res.data : res.data?.skills || [];
+    return new Set(skills.map((s: any) => String(s.id ?? s.skillId)));
+  } catch (err: any) {
+    if (err.response?.status === 404) return new Set();
+    throw describeError(err, "reading the member's skills");
+  }
+}
+
+export function toMemberSkillPayload(
+  recommendation: Recommendation,
+  levelId?: string
+): MemberSkillPayload {
+  return {
+    id: recommendation.id,
+    ...(levelId ? { levelId } : {}),
+    // Only links found in the analysis; fabricated citations are never sent
+    evidence: (
+      recommendation.verification?.links ??
+      extractEvidenceLinks(recommendation.info)
+    ).map((url) => ({
+      url,
+      description: `GitHub evidence for ${recommendation.name} (score ${recommendation.score})`,
+    })),
+  };
+}
+
+export async function addMemberSkills(
+  topcoder: AxiosInstance,
+  userId: string,
+  skills: MemberSkillPayload[]
+) {
+  try {
+    const res = await topcoder.post(
+      `/standardized-skills/user-skills/${userId}`,
+      { skills }
+    );
+    return res.data;
+  } catch (err: any) {
+    throw describeError(err, "adding skills");
+  }
+}
@@ -0,0 +1,226 @@
+// ── Types ────────────────────────────────────────────────────────────────────
+export interface Skill {
+  id: string;
+  name: string;
+}
+export type RecommendationSource = "llm" | "rules" | "rules+llm";
+export interface Recommendation {
+  id: string;
+  name: string;
+  score: number;
+  info: string;
+  // Missing on recommendations saved before the rules engine
+  source?: RecommendationSource;
+  // LLM recommendations only (rule reasons come from the analysis itself)
+  verification?: EvidenceCheck;
+  // Consensus mode only (--consensus <n>)
+  consensus?: ConsensusStats;
+}
+export interface ConsensusStats {
+  runs: number;
+  proposedBy: number;
+  // Scores of the runs that proposed the skill
+  scores: number[];
+  meanScore: number;
+  variance: number;
+  // Proposed by fewer than CONSENSUS_MIN_AGREEMENT of the runs
+  unstable: boolean;
+}
+// One validated item of the model's answer (see llm-schema.ts)
+export interface LlmRecommendation {
+  name: string;
+  score: number;
+  reason: string;
+}
+// How private names are disguised in prompts (see privacy.ts)
+export type PromptRedaction = "off" | "alias" | "hash";
+// local-only: private-repo data never goes to a remote LLM provider
+export type PrivateDataPolicy = "allow" | "local-only";
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+// What a reason cites, checked against the cached analysis
+export interface EvidenceCheck {
+  links: string[];
+  dependencies: string[];
+  // Cited links / packages the analysis doesn't contain
+  unverified: string[];
+  // Bare compound names in prose matching no dependency (no penalty)
+  unknown?: string[];
+}
+// Repo facts behind the contribution weight (see contribution.ts)
+export interface RepoContribution {
+  owned: boolean;
+  fork: boolean;
+  private?: boolean;
+  // Default-branch commits by anyone
+  totalCommits?: number;
+}
+export interface RepoAnalysis {
+  languages: Record<string, number>;
+  dependencies: Set<string>;
+  fileTypes: Set<string>;
+  // "kind:value" → lines changed (see content.ts)
+  signals: Record<string, number>;
+  commitCount: number;
+  prCount: number;
+  evidence: string[];
+  contribution?: RepoContribution;
+  // Newest commit / PR of the user in this repo
+  lastActivityAt?: string;
+}
+// Serialized RepoAnalysis + incremental markers, stored per repo in the cache
+export interface RepoSummary {
+  languages: Record<string, number>;
+  dependencies: string[];
+  fileTypes: string[];
+  signals: Record<string, number>;
+  commitCount: number;
+  prCount: number;
+  evidence: string[];
+  contribution?: RepoContribution;
+  lastActivityAt?: string;
+  lastCommitSha?: string;
+  lastPrUpdatedAt?: string;
+  checkedAt: string;
+}
+// Cheap metadata from discovery, used to rank repos before the
+// MAX_REPOS_TO_ANALYZE cutoff; fields are missing when no source had them
+export interface RepoCandidate {
+  // Search hits / contribution counts for the user
+  commitHits: number;
+  prHits: number;
+  owned?: boolean;
+  fork?: boolean;
+  archived?: boolean;
+  stars?: number;
+  sizeKb?: number;
+  pushedAt?: string;
+  private?: boolean;
+}
+export interface RankedRepo {
+  repo: string;
+  score: number;
+  reasons: string[];
+}
+export interface RepoSelection {
+  include: string[];
+  exclude: string[];
+  selected: RankedRepo[];
+  // Eligible, but ranked below the cutoff
+  skipped: RankedRepo[];
+  // Filtered out by the include / exclude patterns
+  excluded: string[];
+}
+// GitHub access the analysis ran with (see SCOPE_PROFILES in github-auth.ts)
+export type ScopeProfile = "public" | "fine-grained" | "private";
+export interface AnalysisVisibility {
+  profile: ScopeProfile;
+  // Analyzed repos that are private (always empty for the public profile)
+  privateRepos: string[];
+}
+export interface CachedUserAnalysis {
+  schemaVersion: number;
+  timestamp: string;
+  username: string;
+  reposCount: number;
+  analyzedRepos: number;
+  totalCommits: number;
+  totalPRs: number;
+  // Contribution-weighted (see contribution.ts), strongest first
+  langPercentages: string[];
+  topDependencies: string[];
+  dependencyWeights: { name: string; weight: number }[];
+  repoWeights: Record<string, number>;
+  topFileTypes: string[];
+  // Strongest code signals across repos, "kind:value" → lines changed
+  topSignals: Record<string, number>;
+  allEvidenceLinks: string[];
+  reposToAnalyze: string[];
+  // Missing on caches written before repo ranking
+  repoSelection?: RepoSelection;
+  visibility: AnalysisVisibility;
+  repos: Record<string, RepoSummary>;
+}
+export interface CachedSkills {
+  schemaVersion: number;
+  timestamp: string;
+  skills: Skill[];
+}
+export interface SkillCandidate {
+  id: string;
+  name: string;
+  score: number;
+  matchedTerms: string[];
+}
+export interface SkillShortlist {
+  timestamp: string;
+  username: string;
+  totalSkills: number;
+  candidates: SkillCandidate[];
+}
+export interface SavedRecommendations {
+  timestamp: string;
+  username: string;
+  recommendations: Recommendation[];
+  totalApiCalls: number;
+  elapsedSeconds: number;
+}
+// One LLM sample: the prompt and every raw answer, repair retries included
+export interface LlmExchange {
+  model?: string;
+  prompt: string;
+  responses: string[];
+}
+// One `recommend` / `rules` / `review` run in the run history (history.ts)
+export interface RunRecord {
+  schemaVersion: number;
+  id: string;
+  timestamp: string;
+  username: string;
+  command: "recommend" | "rules" | "review";
+  // The analysis snapshot the run used, stored once per hash
+  analysis: {
+    sha256: string;
+    timestamp: string;
+    schemaVersion: number;
+    analyzedRepos: number;
+    totalCommits: number;
+    totalPRs: number;
+  };
+  // Missing for rules-only runs and reviews
+  llm?: {
+    provider: string;
+    model?: string;
+    consensusRuns?: number;
+    // The candidates the prompt offered, with their retrieval scores
+    shortlist: { totalSkills: number; candidates: SkillCandidate[] };
+    exchanges: LlmExchange[];
+  };
+  recommendations: Recommendation[];
+  totalApiCalls: number;
+  elapsedSeconds: number;
+}
+export interface ReviewDecisions {
+  username: string;
+  updatedAt: string;
+  // skill id → rejection, never proposed again for this user
+  rejected: Record<string, { name: string; at: string }>;
+}
+export interface BatchUserResult {
+  username: string;
+  finishedAt: string;
+  reportFile: string;
+  analyzedRepos: number;
+  totalCommits: number;
+  totalPRs: number;
+  topSkills: { name: string; score: number }[];
+}
+export interface BatchState {
+  source: string;
+  startedAt: string;
+  updatedAt: string;
+  completed: Record<string, BatchUserResult>;
+  failed: Record<string, string>;
+}
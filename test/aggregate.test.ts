@@ -0,0 +1,182 @@
+import assert from "node:assert/strict";
+import { describe, it, mock } from "node:test";
+import { aggregateAnalysis, getFreshEvidenceSample } from "../src/aggregate";
+import { RepoAnalysis } from "../src/types";
+
+const repo = (
+  name: string,
+  fields: Partial<Omit<RepoAnalysis, "dependencies" | "fileTypes">> & {
+    dependencies?: string[];
+    fileTypes?: string[];
+  } = {}
+): RepoAnalysis => ({
+  languages: fields.languages || {},
+  dependencies: new Set(fields.dependencies),
+  fileTypes: new Set(fields.fileTypes),
+  signals: fields.signals || {},
+  commitCount: fields.commitCount ?? 1,
+  prCount: fields.prCount ?? 0,
+  evidence: fields.evidence || [`https://github.com/${name}/commit/0000000`],
+});
+
+// mulberry32, as used by the fixtures while recording / replaying
+function seeded(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe("aggregateAnalysis", () => {
+  it("weights languages, dependencies and file types by contribution", () => {
+    const result = aggregateAnalysis(
+      {
+        "dev/main": repo("dev/main", {
+          languages: { TypeScript: 600, CSS: 100 },
+          dependencies: ["npm:react"],
+          fileTypes: ["tsx"],
+        }),
+        "other/fork": repo("other/fork", {
+          languages: { Python: 3000 },
+          dependencies: ["pypi:django", "npm:react"],
+          fileTypes: ["py"],
+        }),
+      },
+      { "dev/main": 1, "other/fork": 0.1 }
+    );
+    assert.equal(
+      result.langPercentages,
+      "TypeScript: 60.00%\nPython: 30.00%\nCSS: 10.00%"
+    );
+    assert.deepEqual(result.dependencyWeights, [
+      { name: "npm:react", weight: 1.1 },
+      { name: "pypi:django", weight: 0.1 },
+    ]);
+    assert.deepEqual(result.topDeps, ["npm:react", "pypi:django"]);
+    assert.deepEqual(result.topFileTypes, ["tsx", "py"]);
+  });
+
+  it("breaks ties by name, whatever order the repos arrived in", () => {
+    const a = repo("dev/a", {
+      languages: { Go: 100 },
+      dependencies: ["go:b", "go:a"],
+      fileTypes: ["yml", "go"],
+      signals: { "config:docker": 20 },
+    });
+    const b = repo("dev/b", {
+      languages: { Rust: 100 },
+      dependencies: ["cargo:serde"],
+      fileTypes: ["rs"],
+      signals: { "config:ci": 20 },
+    });
+    const first = aggregateAnalysis({ "dev/a": a, "dev/b": b }, {});
+    const second = aggregateAnalysis({ "dev/b": b, "dev/a": a }, {});
+
+    assert.equal(first.langPercentages, "Go: 50.00%\nRust: 50.00%");
+    assert.deepEqual(first.topDeps, ["cargo:serde", "go:a", "go:b"]);
+    assert.deepEqual(first.topFileTypes, ["go", "rs", "yml"]);
+    assert.deepEqual(Object.keys(first.topSignals), [
+      "config:ci",
+      "config:docker",
+    ]);
+    const { evidenceSample: _a, ...rest1 } = first;
+    const { evidenceSample: _b, ...rest2 } = second;
+    assert.deepEqual(rest1, rest2);
+  });
+
+  it("samples the same evidence for the same random sequence", () => {
+    const repos = Object.fromEntries(
+      ["dev/a", "dev/b", "dev/c"].map((name) => [
+        name,
+        repo(name, {
+          evidence: [
+            `https://github.com/${name}/pull/1`,
+            `https://github.com/${name}/commit/abc1234`,
+            `https://github.com/${name}/commit/def5678`,
+          ],
+        }),
+      ])
+    );
+    const sample = () => {
+      mock.method(Math, "random", seeded(1));
+      try {
+        return aggregateAnalysis(repos, {}).evidenceSample;
+      } finally {
+        mock.restoreAll();
+      }
+    };
+    const first = sample();
+    assert.equal(first.length, 9);
+    assert.deepEqual(sample(), first);
+  });
+});
+
+describe("getFreshEvidenceSample", () => {
+  const links = [
+    "https://github.com/dev/a/commit/a1",
+    "https://github.com/dev/a/commit/a2",
+    "https://github.com/dev/a/pull/1",
+    "https://github.com/dev/b/commit/b1",
+    "https://github.com/dev/b/commit/b2",
+    "https://github.com/dev/c/commit/c1",
+    "https://github.com/dev/c/pull/2",
+    "https://github.com/dev/c/pull/3",
+  ];
+
+  it("returns every link when there are no more than asked for", () => {
+    assert.equal(
+      getFreshEvidenceSample(links.slice(0, 3), 5),
+      links.slice(0, 3).join("\n")
+    );
+  });
+
+  it("covers each repo's PRs and commits before filling at random", () => {
+    const sample = getFreshEvidenceSample(links, 6).split("\n");
+    assert.equal(sample.length, 6);
+    assert.equal(new Set(sample).size, 6);
+    const has = (repo: string, kind: string) =>
+      sample.some((l) =>
+        l.startsWith(`https://github.com/dev/${repo}/${kind}/`)
+      );
+    for (const repo of ["a", "c"]) {
+      assert.ok(has(repo, "pull"), `no PR of dev/${repo} in the sample`);
+    }
+    for (const repo of ["a", "b", "c"]) {
+      assert.ok(has(repo, "commit"), `no commit of dev/${repo} in the sample`);
+    }
+  });
+
+  it("draws different links on each run when repos outnumber them", () => {
+    const many = ["a", "b", "c", "d", "e", "f"].flatMap((repo) =>
+      [1, 2, 3].flatMap((n) => [
+        `https://github.com/dev/${repo}/pull/${n}`,
+        `https://github.com/dev/${repo}/commit/${repo}${n}`,
+      ])
+    );
+    mock.method(Math, "random", seeded(3));
+    try {
+      const first = getFreshEvidenceSample(many, 4).split("\n").sort();
+      const second = getFreshEvidenceSample(many, 4).split("\n").sort();
+      assert.equal(first.length, 4);
+      assert.notDeepEqual(first, second);
+    } finally {
+      mock.restoreAll();
+    }
+  });
+
+  it("is deterministic for a seeded random sequence", () => {
+    const sample = (seed: number) => {
+      mock.method(Math, "random", seeded(seed));
+      try {
+        return getFreshEvidenceSample(links, 6);
+      } finally {
+        mock.restoreAll();
+      }
+    };
+    assert.equal(sample(7), sample(7));
+  });
+});
@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { getBatchStateFile } from "../src/config";
+
+describe("getBatchStateFile", () => {
+  it("separates same-named users files in different directories", () => {
+    assert.notEqual(
+      getBatchStateFile("a/users.csv"),
+      getBatchStateFile("b/users.csv")
+    );
+  });
+
+  it("resumes the same file however its path is written", () => {
+    const file = getBatchStateFile("teams/users.csv");
+    assert.equal(getBatchStateFile(path.resolve("teams/users.csv")), file);
+    assert.equal(getBatchStateFile("./teams/../teams/users.csv"), file);
+    assert.match(path.basename(file), /^batch-users-[0-9a-f]{12}\.json$/);
+  });
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { verifyRecommendations } from "../src/evidence";
+import { CachedUserAnalysis, Recommendation } from "../src/types";
+
+const COMMIT = "https://github.com/octo-dev/web-app/commit/a1b2c3d4e5f6";
+
+const analysis = {
+  username: "octo-dev",
+  reposToAnalyze: ["octo-dev/web-app", "octo-dev/api-server"],
+  allEvidenceLinks: [COMMIT],
+  topDependencies: [
+    "npm:react",
+    "npm:typescript",
+    "npm:@tanstack/react-query",
+    "pypi:django",
+  ],
+  topSignals: { "config:docker": 40 },
+  repos: {},
+} as unknown as CachedUserAnalysis;
+
+const verify = (info: string, score = 85) =>
+  verifyRecommendations(
+    [{ id: "1", name: "React.js", score, info } as Recommendation],
+    analysis
+  )[0];
+
+describe("verifyRecommendations", () => {
+  it("does not penalize hyphenated prose", () => {
+    const r = verify(
+      "Builds type-safe, mobile-first, user-facing UIs with react and typescript across .tsx files."
+    );
+    assert.equal(r.score, 85);
+    assert.deepEqual(r.verification?.dependencies, [
+      "npm:react",
+      "npm:typescript",
+    ]);
+    assert.deepEqual(r.verification?.unverified, []);
+    assert.deepEqual(r.verification?.unknown, [
+      "type-safe",
+      "mobile-first",
+      "user-facing",
+    ]);
+  });
+
+  it("records unknown bare package names without a penalty", () => {
+    const r = verify(
+      "Server-side rendering with react and react-query, state in zustand-lite and forms via react_hook_form."
+    );
+    assert.equal(r.score, 85);
+    assert.deepEqual(r.verification?.unverified, []);
+    assert.deepEqual(r.verification?.unknown, [
+      "zustand-lite",
+      "react_hook_form",
+    ]);
+  });
+
+  it("penalizes unknown scoped, tagged and code-span packages", () => {
+    const r = verify(
+      "Uses `react` with `redux-saga`, @acme/design-system and npm:left-pad-pro in long-running builds."
+    );
+    assert.deepEqual(r.verification?.unverified, [
+      "redux-saga",
+      "@acme/design-system",
+      "npm:left-pad-pro",
+    ]);
+    assert.equal(r.score, 40);
+  });
+
+  it("verifies cited links and code signals, and skips repo names", () => {
+    const r = verify(
+      `Dockerized the api-server (config:docker), see ${COMMIT}. Also https://github.com/octo-dev/web-app/pull/99.`
+    );
+    assert.deepEqual(r.verification?.links, [COMMIT]);
+    assert.deepEqual(r.verification?.dependencies, ["config:docker"]);
+    assert.deepEqual(r.verification?.unverified, [
+      "https://github.com/octo-dev/web-app/pull/99",
+    ]);
+    assert.deepEqual(r.verification?.unknown, []);
+    assert.equal(r.score, 70);
+  });
+});
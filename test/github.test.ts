@@ -0,0 +1,50 @@
+import { AxiosHeaders, InternalAxiosRequestConfig } from "axios";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AppConfig } from "../src/config";
+import { createGitHubClient, getApiCallsCounter } from "../src/github";
+
+// A GitHub client whose /rate_limit reports the search window resetting at
+// `reset` (epoch seconds); returns it with the paths it was asked for
+function fakeGitHub(reset: number) {
+  const requested: string[] = [];
+  const github = createGitHubClient("test-token", getApiCallsCounter(), {
+    githubConcurrency: 1,
+    githubMaxRetries: 0,
+  } as AppConfig);
+  github.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+    requested.push(config.url!);
+    return {
+      data:
+        config.url === "/rate_limit"
+          ? { resources: { search: { remaining: 30, reset } } }
+          : { items: [] },
+      status: 200,
+      statusText: "OK",
+      headers: new AxiosHeaders(),
+      config,
+    };
+  };
+  return { github, requested };
+}
+
+const rateLimitChecks = (requested: string[]) =>
+  requested.filter((url) => url === "/rate_limit").length;
+
+describe("search rate limit check", () => {
+  it("checks once while the reported window lasts", async () => {
+    const { github, requested } = fakeGitHub(Date.now() / 1000 + 60);
+    await github.get("/search/commits?q=a");
+    await github.get("/search/commits?q=b");
+    assert.equal(rateLimitChecks(requested), 1);
+    assert.equal(requested.length, 3);
+  });
+
+  it("checks again once the reported reset time has passed", async () => {
+    const { github, requested } = fakeGitHub(Date.now() / 1000 - 1);
+    await github.get("/search/commits?q=a");
+    await github.get("/search/issues?q=b");
+    assert.equal(rateLimitChecks(requested), 2);
+    assert.equal(requested.length, 4);
+  });
+});
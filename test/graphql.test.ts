@@ -0,0 +1,91 @@
+import { AxiosHeaders, InternalAxiosRequestConfig } from "axios";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AppConfig } from "../src/config";
+import {
+  createGitHubClient,
+  getApiCallsCounter,
+  getGitHubStats,
+} from "../src/github";
+import { discoverReposGraphQL } from "../src/graphql";
+
+const repo = (nameWithOwner: string) => ({
+  nameWithOwner,
+  isFork: false,
+  isArchived: false,
+  isPrivate: false,
+  stargazerCount: 1,
+  diskUsage: 100,
+  pushedAt: "2026-01-01T00:00:00Z",
+  owner: { login: nameWithOwner.split("/")[0] },
+});
+const page = (...nodes: unknown[]) => ({
+  pageInfo: { hasNextPage: false, endCursor: null },
+  nodes,
+});
+
+// A GitHub client answering every GraphQL query with `answer(variables)`
+function fakeGitHub(answer: (variables: any) => unknown) {
+  const apiCalls = getApiCallsCounter();
+  const github = createGitHubClient("test-token", apiCalls, {
+    githubConcurrency: 1,
+    githubMaxRetries: 0,
+  } as AppConfig);
+  github.defaults.adapter = async (config: InternalAxiosRequestConfig) => ({
+    data: answer(JSON.parse(config.data).variables),
+    status: 200,
+    statusText: "OK",
+    headers: new AxiosHeaders(),
+    config,
+  });
+  return { github, apiCalls };
+}
+
+describe("discoverReposGraphQL", () => {
+  it("keeps the data of a response with partial errors", async () => {
+    const { github, apiCalls } = fakeGitHub(({ owned }) => ({
+      data: {
+        user: owned
+          ? { repositories: page(repo("dev/app")) }
+          : {
+              repositoriesContributedTo: page(repo("acme/lib"), null),
+              contributionsCollection: {
+                commitContributionsByRepository: [
+                  {
+                    repository: repo("acme/lib"),
+                    contributions: { totalCount: 4 },
+                  },
+                  { repository: null, contributions: { totalCount: 9 } },
+                ],
+                pullRequestContributionsByRepository: [],
+              },
+            },
+      },
+      errors: owned
+        ? undefined
+        : [
+            {
+              type: "FORBIDDEN",
+              path: ["user", "contributionsCollection"],
+              message: "Resource protected by organization SAML enforcement",
+            },
+          ],
+    }));
+
+    const repos = await discoverReposGraphQL(github, "dev", apiCalls);
+    assert.deepEqual([...repos.keys()].sort(), ["acme/lib", "dev/app"]);
+    assert.equal(repos.get("acme/lib")?.commitHits, 4);
+    assert.equal(getGitHubStats(github).partial, 1);
+  });
+
+  it("throws when the response has no data", async () => {
+    const { github, apiCalls } = fakeGitHub(() => ({
+      data: null,
+      errors: [{ type: "RATE_LIMITED", message: "API rate limit exceeded" }],
+    }));
+    await assert.rejects(discoverReposGraphQL(github, "dev", apiCalls), {
+      message: "GraphQL: API rate limit exceeded",
+      type: "RATE_LIMITED",
+    });
+  });
+});
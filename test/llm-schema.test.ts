@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseLlmRecommendations } from "../src/llm-schema";
+
+const SKILLS = ["React", "TypeScript", "Docker"];
+
+describe("parseLlmRecommendations", () => {
+  it("accepts a valid answer and maps names to the listed spelling", () => {
+    const result = parseLlmRecommendations(
+      JSON.stringify({
+        recommendations: [
+          { name: "react", score: 88, reason: "Uses react-dom. " },
+          { name: "Docker", score: "72", reason: "config:docker" },
+        ],
+      }),
+      SKILLS
+    );
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.recommendations, [
+      { name: "React", score: 88, reason: "Uses react-dom." },
+      { name: "Docker", score: 72, reason: "config:docker" },
+    ]);
+  });
+
+  it("unwraps fenced and prose-wrapped JSON and accepts field aliases", () => {
+    const raw =
+      'Here you go:\n```json\n{"skills": [{"skill": "TypeScript", "confidence": 91.6, "why": "tsconfig.json"}]}\n```';
+    const result = parseLlmRecommendations(raw, SKILLS);
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.recommendations, [
+      { name: "TypeScript", score: 92, reason: "tsconfig.json" },
+    ]);
+  });
+
+  it("keeps valid items and reports the invalid ones", () => {
+    const result = parseLlmRecommendations(
+      JSON.stringify([
+        { name: "React", score: 80, reason: "JSX" },
+        { name: "Rust", score: 80, reason: "Cargo.toml" },
+        { name: "Docker", score: 120, reason: "" },
+        "TypeScript",
+      ]),
+      SKILLS
+    );
+    assert.deepEqual(result.recommendations.map((r) => r.name), ["React"]);
+    assert.deepEqual(result.errors, [
+      'recommendations[1].name: "Rust" is not in the skill list',
+      "recommendations[2].score: expected a number from 0 to 100",
+      "recommendations[2].reason: expected a non-empty string",
+      "recommendations[3]: expected an object",
+    ]);
+  });
+
+  it("drops duplicate skills", () => {
+    const result = parseLlmRecommendations(
+      JSON.stringify({
+        recommendations: [
+          { name: "React", score: 80, reason: "first" },
+          { name: "REACT", score: 60, reason: "second" },
+        ],
+      }),
+      SKILLS
+    );
+    assert.deepEqual(result.recommendations, [
+      { name: "React", score: 80, reason: "first" },
+    ]);
+  });
+
+  it("rejects answers without JSON or without a list", () => {
+    assert.match(
+      parseLlmRecommendations("I can't help with that", SKILLS).errors[0],
+      /^invalid JSON/
+    );
+    assert.deepEqual(
+      parseLlmRecommendations('{"answer": "React"}', SKILLS).errors,
+      ['expected an object with a "recommendations" array']
+    );
+    assert.deepEqual(
+      parseLlmRecommendations('{"recommendations": []}', SKILLS).errors,
+      ["recommendations: expected at least one"]
+    );
+  });
+});
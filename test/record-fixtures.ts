@@ -0,0 +1,255 @@
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// ── Replay fixture set ──────────────────────────────────────────────────────
+// Records test/fixtures/replay (used by replay.test.ts) from the fake GitHub
+// and Topcoder below and the mock LLM, so the set holds no real account data
+// and no token. Record again with `npm run test:record` whenever the requests
+// or the prompt change: replays look answers up by request.
+export const FIXTURE_USER = "octo-dev";
+export const FIXTURE_DIR = path.join(__dirname, "fixtures", "replay");
+export const FIXTURE_ENV = {
+  GITHUB_ACCESS_TOKEN: "fixture-token",
+  GITHUB_COLLECTOR: "rest",
+  LLM_PROVIDER: "mock",
+  SKILL_RULES_FILE: path.join(__dirname, "..", "skill-rules.json"),
+  TOPCODER_API_URL: "https://api.topcoder.test/v5",
+};
+
+const at = (day: number) =>
+  `2026-01-${String(day).padStart(2, "0")}T12:00:00Z`;
+const base64 = (text: string) => Buffer.from(text).toString("base64");
+
+interface FakeRepo {
+  name: string;
+  languages: Record<string, number>;
+  manifests: Record<string, string>;
+  commits: { sha: string; day: number; files: object[] }[];
+  pulls: { number: number; title: string; day: number }[];
+}
+
+const REPOS: FakeRepo[] = [
+  {
+    name: `${FIXTURE_USER}/web-app`,
+    languages: { TypeScript: 42000, CSS: 6000, HTML: 2000 },
+    manifests: {
+      "package.json": JSON.stringify({
+        dependencies: { react: "^18.2.0", "react-dom": "^18.2.0" },
+        devDependencies: { typescript: "^5.4.0", jest: "^29.7.0" },
+      }),
+    },
+    commits: [
+      {
+        sha: "a1b2c3d4e5f60718293a4b5c6d7e8f9012345678",
+        day: 14,
+        files: [
+          {
+            filename: "src/App.tsx",
+            additions: 40,
+            deletions: 4,
+            patch:
+              '+import { useState } from "react";\n+export function App() {}',
+          },
+          { filename: "src/App.test.tsx", additions: 25, deletions: 0 },
+        ],
+      },
+      {
+        sha: "b2c3d4e5f60718293a4b5c6d7e8f901234567890",
+        day: 9,
+        files: [{ filename: "Dockerfile", additions: 12, deletions: 0 }],
+      },
+    ],
+    pulls: [{ number: 7, title: "Add a Docker build for the app", day: 10 }],
+  },
+  {
+    name: `${FIXTURE_USER}/api`,
+    languages: { Python: 30000, Shell: 800 },
+    manifests: {
+      "requirements.txt": "django==5.0.1\npsycopg2-binary==2.9.9\n",
+    },
+    commits: [
+      {
+        sha: "c3d4e5f60718293a4b5c6d7e8f9012345678901a",
+        day: 12,
+        files: [
+          {
+            filename: "api/views.py",
+            additions: 60,
+            deletions: 8,
+            patch: "+from django.http import JsonResponse\n+import psycopg2",
+          },
+        ],
+      },
+    ],
+    pulls: [{ number: 3, title: "Paginate the orders endpoint", day: 13 }],
+  },
+];
+
+const SKILLS = [
+  "CSS",
+  "Django",
+  "Docker",
+  "Go",
+  "HTML",
+  "Jest",
+  "PostgreSQL",
+  "Project Management",
+  "Python",
+  "React.js",
+  "TypeScript",
+  "UI/UX Research",
+].map((name, i) => ({ id: `skill-${i + 1}`, name }));
+
+// ── Fake APIs ───────────────────────────────────────────────────────────────
+// Request URL → response body; anything else answers 404
+function route(url: URL): unknown {
+  const page = Number(url.searchParams.get("page") || "1");
+  const paged = (items: unknown[]) => (page === 1 ? items : []);
+  const owner = { login: FIXTURE_USER };
+
+  if (url.hostname === "api.topcoder.test") {
+    return url.pathname === "/v5/standardized-skills/skills"
+      ? paged(SKILLS)
+      : undefined;
+  }
+  if (["/user", `/users/${FIXTURE_USER}`].includes(url.pathname)) {
+    return owner;
+  }
+  if (url.pathname === "/rate_limit") {
+    return { resources: { search: { remaining: 30, reset: 0 } } };
+  }
+  if (url.pathname === "/user/repos") {
+    return paged(
+      REPOS.map((r, i) => ({
+        full_name: r.name,
+        owner,
+        fork: false,
+        private: false,
+        stargazers_count: 3 - i,
+        pushed_at: at(14 - i),
+      }))
+    );
+  }
+  if (url.pathname === "/search/commits") {
+    return {
+      items: paged(
+        REPOS.flatMap((r) =>
+          r.commits.map(() => ({
+            repository: { full_name: r.name, owner },
+          }))
+        )
+      ),
+    };
+  }
+  if (url.pathname === "/search/issues") {
+    return {
+      items: paged(
+        REPOS.flatMap((r) =>
+          r.pulls.map(() => ({
+            repository_url: `https://api.github.com/repos/${r.name}`,
+          }))
+        )
+      ),
+    };
+  }
+
+  const repo = REPOS.find((r) =>
+    `${url.pathname}/`.startsWith(`/repos/${r.name}/`)
+  );
+  if (!repo) return undefined;
+  const rest = url.pathname.slice(`/repos/${repo.name}`.length);
+  const commit = (c: FakeRepo["commits"][number]) => ({
+    sha: c.sha,
+    html_url: `https://github.com/${repo.name}/commit/${c.sha}`,
+    commit: { author: { date: at(c.day) } },
+  });
+  switch (rest) {
+    case "":
+      return { owner, fork: false, private: false };
+    case "/languages":
+      return repo.languages;
+    case "/pulls":
+      return paged(
+        repo.pulls.map((p) => ({
+          html_url: `https://github.com/${repo.name}/pull/${p.number}`,
+          title: p.title,
+          created_at: at(p.day - 1),
+          updated_at: at(p.day),
+        }))
+      );
+    case "/commits":
+      return url.searchParams.has("author")
+        ? paged(repo.commits.map(commit))
+        : [commit(repo.commits[0])];
+    case "/git/trees/HEAD":
+      return {
+        tree: Object.keys(repo.manifests).map((p) => ({
+          path: p,
+          type: "blob",
+        })),
+        truncated: false,
+      };
+  }
+  const detail = repo.commits.find((c) => rest === `/commits/${c.sha}`);
+  if (detail) return { ...commit(detail), files: detail.files };
+  const manifest = rest.match(/^\/contents\/(.+)$/)?.[1];
+  if (manifest && repo.manifests[manifest] !== undefined) {
+    return { content: base64(repo.manifests[manifest]) };
+  }
+  return undefined;
+}
+
+async function fakeAdapter(
+  config: InternalAxiosRequestConfig
+): Promise<AxiosResponse> {
+  const url = new URL(axios.getUri(config));
+  const data = route(url);
+  const response: AxiosResponse = {
+    data: data ?? { message: "Not Found" },
+    status: data === undefined ? 404 : 200,
+    statusText: data === undefined ? "Not Found" : "OK",
+    headers: new AxiosHeaders({ "content-type": "application/json" }),
+    config,
+    request: {},
+  };
+  if (data !== undefined) return response;
+  console.warn(`Fake API: no route for ${url.href}`);
+  throw new AxiosError(
+    "Request failed with status code 404",
+    AxiosError.ERR_BAD_REQUEST,
+    config,
+    {},
+    response
+  );
+}
+
+// ── Record ──────────────────────────────────────────────────────────────────
+// Runs `recommend` in a scratch directory, so caches, history and the report
+// stay out of the repo
+if (require.main === module) {
+  fs.rmSync(FIXTURE_DIR, { recursive: true, force: true });
+  const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "record-fixtures-"));
+  process.on("exit", () =>
+    fs.rmSync(scratch, { recursive: true, force: true })
+  );
+  process.chdir(scratch);
+  Object.assign(process.env, FIXTURE_ENV);
+  process.argv = [
+    ...process.argv.slice(0, 2),
+    "recommend",
+    "--user",
+    FIXTURE_USER,
+    "--no-cache",
+    "--record",
+    FIXTURE_DIR,
+  ];
+  axios.defaults.adapter = fakeAdapter;
+  require("../src/app");
+}
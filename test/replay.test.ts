@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { promisify } from "node:util";
+import { ReportData } from "../src/report";
+import { RunRecord } from "../src/types";
+import { FIXTURE_DIR, FIXTURE_ENV, FIXTURE_USER } from "./record-fixtures";
+
+// ── Replay smoke test ───────────────────────────────────────────────────────
+// Runs `recommend` over the committed fixture set (see record-fixtures.ts):
+// no network, no credentials, and the same report on every run.
+const ROOT = path.join(__dirname, "..");
+
+// Each run in its own directory: a skills cache left by the first would save
+// the second one a request
+async function replayRecommend(cwd: string) {
+  const output = path.join(cwd, "report.json");
+  fs.mkdirSync(cwd);
+  await promisify(execFile)(
+    process.execPath,
+    [
+      "--require",
+      require.resolve("ts-node/register"),
+      path.join(ROOT, "src", "app.ts"),
+      "recommend",
+      "--user",
+      FIXTURE_USER,
+      "--no-cache",
+      "--replay",
+      FIXTURE_DIR,
+      "--output",
+      output,
+    ],
+    {
+      cwd,
+      // Only the fixture settings: a developer's LLM or privacy settings
+      // would change the prompt, and with it the recorded answer's key
+      env: {
+        PATH: process.env.PATH,
+        TS_NODE_PROJECT: path.join(ROOT, "tsconfig.json"),
+        ...FIXTURE_ENV,
+        GITHUB_ACCESS_TOKEN: "replay",
+      },
+      timeout: 240_000,
+    }
+  );
+  return JSON.parse(fs.readFileSync(output, "utf-8")) as ReportData;
+}
+
+describe("replay", () => {
+  let scratch: string;
+  let first: ReportData;
+  let second: ReportData;
+
+  before(async () => {
+    scratch = fs.mkdtempSync(path.join(os.tmpdir(), "replay-test-"));
+    first = await replayRecommend(path.join(scratch, "first"));
+    second = await replayRecommend(path.join(scratch, "second"));
+  });
+
+  after(() => fs.rmSync(scratch, { recursive: true, force: true }));
+
+  it("analyzes the recorded repos", () => {
+    assert.equal(first.username, FIXTURE_USER);
+    assert.deepEqual(first.summary, {
+      reposDiscovered: 2,
+      reposAnalyzed: 2,
+      commits: 3,
+      pullRequests: 2,
+      evidenceLinks: 5,
+    });
+    assert.deepEqual(first.rankings.dependencies.map((d) => d.name).sort(), [
+      "npm:jest",
+      "npm:react",
+      "npm:react-dom",
+      "npm:typescript",
+      "pypi:django",
+      "pypi:psycopg2-binary",
+    ]);
+  });
+
+  it("merges the rule and mock LLM recommendations", () => {
+    const byName = Object.fromEntries(
+      first.recommendations.map((r) => [r.name, r])
+    );
+    assert.equal(byName["React.js"]?.source, "rules+llm");
+    assert.equal(byName["Django"]?.source, "rules+llm");
+    for (const r of first.recommendations) {
+      assert.ok(r.score >= 40, `${r.name} scored ${r.score}`);
+      assert.deepEqual(r.unverified, [], `${r.name} cites unknown evidence`);
+    }
+  });
+
+  it("records the shortlist the prompt offered in the run history", () => {
+    const runsDir = path.join(
+      scratch,
+      "first",
+      ".history",
+      FIXTURE_USER,
+      "runs"
+    );
+    const [file] = fs.readdirSync(runsDir);
+    const run: RunRecord = JSON.parse(
+      fs.readFileSync(path.join(runsDir, file), "utf-8")
+    );
+    const shortlist = run.llm?.shortlist;
+    assert.equal(shortlist?.totalSkills, 12);
+    assert.ok(shortlist?.candidates.some((c) => c.name === "React.js"));
+    for (const c of shortlist?.candidates ?? []) {
+      assert.equal(typeof c.score, "number", `${c.name} has no score`);
+    }
+  });
+
+  it("produces the same report on every replay", () => {
+    const { elapsedSeconds: _first, ...run1 } = first.run;
+    const { elapsedSeconds: _second, ...run2 } = second.run;
+    assert.deepEqual({ ...first, run: run1 }, { ...second, run: run2 });
+  });
+});